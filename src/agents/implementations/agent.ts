@@ -2,11 +2,49 @@ import { AgentConfig, AgentInput, AgentOutput } from '../types/agent.types.js';
 import { IAgent } from '../interfaces/agent.interface.js';
 import { Logger } from '../../utils/logger.js';
 import { createOpenAI } from '@ai-sdk/openai';
-import { generateText } from 'ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import {
+  CoreMessage,
+  generateText,
+  LanguageModelV1,
+  ProviderMetadata,
+} from 'ai';
 import { getProviderFromModel } from '../../utils/provider-mapping.js';
-import { getProviderBaseUrl } from '../../config/utils/provider-config.js';
+import {
+  getProviderApi,
+  getProviderAuthHeader,
+  getProviderBaseUrl,
+  getProviderGenerationSettings,
+  getProviderRateLimits,
+} from '../../config/utils/provider-config.js';
+import { mergeGenerationSettings } from '../../config/utils/generation-settings.js';
 import { ConfigLoader } from '../../config/config.loader.js';
-import { ProviderType } from '../../config/types/config.types.js';
+import { ProviderApi, ProviderType } from '../../config/types/config.types.js';
+import { createMockTools } from '../../tools/mock-tools.js';
+import {
+  HttpError,
+  RequestScheduler,
+  estimateTokens,
+} from '../../utils/request-scheduler.js';
+
+/**
+ * Maximum number of model calls per input when the agent can call tools
+ */
+const MAX_TOOL_STEPS = 10;
+
+/**
+ * Temperature used when none is configured
+ */
+const DEFAULT_TEMPERATURE = 1.0;
+
+/**
+ * Token usage as reported in the body of a model response
+ */
+interface ResponseUsage {
+  total_tokens?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+}
 
 /**
  * Options for creating an agent instance
@@ -26,15 +64,29 @@ export interface AgentOptions {
    * Base URL override for the provider
    */
   baseUrl?: string;
+
+  /**
+   * Scheduler for the model calls (defaults to the shared scheduler)
+   */
+  scheduler?: RequestScheduler;
+
+  /**
+   * Function that sends the HTTP requests of the model calls, e.g. to record or replay them (defaults to the global fetch)
+   */
+  fetch?: typeof fetch;
 }
 
 /**
- * Simplified agent implementation using the Vercel AI SDK with OpenAI-compatible endpoints
- * Handles all model types (OpenAI, Hebo, and custom models) with smart configuration resolution
+ * Simplified agent implementation using the Vercel AI SDK
+ * Handles all model types (OpenAI, Hebo, Anthropic and custom models) with smart configuration resolution.
+ * Anthropic models use the native Messages API, all others use OpenAI-compatible endpoints
  */
 export class Agent implements IAgent {
   private config: AgentConfig;
-  private provider: ReturnType<typeof createOpenAI>;
+  private providerType: ProviderType;
+  private model: LanguageModelV1;
+  private scheduler: RequestScheduler;
+  private fetch?: typeof fetch;
 
   constructor(model: string, options: AgentOptions = {}) {
     // Get the config loader singleton
@@ -89,14 +141,26 @@ export class Agent implements IAgent {
       apiKey,
       baseUrl,
       provider: providerName,
+      api:
+        provider === ProviderType.ANTHROPIC
+          ? 'messages'
+          : getProviderApi(providerName),
+      generation: getProviderGenerationSettings(providerName),
       configPath: options.configPath,
     };
 
+    this.providerType = provider;
+    this.fetch = options.fetch;
+
+    // Apply the rate limits of the provider to the model calls
+    this.scheduler = options.scheduler ?? RequestScheduler.getInstance();
+    this.scheduler.configure(providerName, getProviderRateLimits(providerName));
+
     // Validate provider-key combination
     this.validateProviderKeyMatch(this.config.provider, this.config.apiKey);
 
-    // Create the provider instance
-    this.provider = this.createProvider();
+    // Create the model instance
+    this.model = this.createModel();
   }
 
   /**
@@ -114,12 +178,39 @@ export class Agent implements IAgent {
         `Configuration error: You are using a non-OpenAI API key with the OpenAI provider. Please use an OpenAI API key (starts with 'sk-') or switch to the Hebo provider.`,
       );
     }
+
+    if (provider.toLowerCase() === 'openai' && apiKey.startsWith('sk-ant-')) {
+      throw new Error(
+        `Configuration error: You are using an Anthropic API key (starts with 'sk-ant-') with the OpenAI provider. Please use an OpenAI API key or a claude-* model.`,
+      );
+    }
+
+    if (
+      provider.toLowerCase() === 'anthropic' &&
+      apiKey.startsWith('sk-') &&
+      !apiKey.startsWith('sk-ant-')
+    ) {
+      throw new Error(
+        `Configuration error: You are using an OpenAI API key with the Anthropic provider. Please use an Anthropic API key (starts with 'sk-ant-').`,
+      );
+    }
   }
 
   /**
-   * Creates an OpenAI-compatible provider instance using Vercel AI SDK
+   * Creates the language model instance using Vercel AI SDK
    */
-  private createProvider() {
+  private createModel(): LanguageModelV1 {
+    if (this.providerType === ProviderType.ANTHROPIC) {
+      return this.createAnthropicModel();
+    }
+
+    return this.createOpenAIModel();
+  }
+
+  /**
+   * Creates an OpenAI-compatible model for the configured API
+   */
+  private createOpenAIModel(): LanguageModelV1 {
     // Set base URL based on provider
     let baseUrl: string;
     if (this.config.provider === 'hebo') {
@@ -131,12 +222,110 @@ export class Agent implements IAgent {
       baseUrl = this.config.baseUrl || 'https://api.openai.com/v1';
     }
 
-    return createOpenAI({
+    const provider = createOpenAI({
       name: this.config.provider,
       baseURL: baseUrl,
       apiKey: this.config.apiKey,
       compatibility: 'compatible',
+      fetch: (input, init) => this.scheduleFetch(input, init),
     });
+    switch (this.config.api) {
+      case ProviderApi.CHAT:
+        return provider.chat(this.config.model);
+      case ProviderApi.COMPLETION:
+        return provider.completion(this.config.model);
+      default:
+        return provider.responses(this.config.model);
+    }
+  }
+
+  /**
+   * Creates a model that uses the Anthropic Messages API
+   *
+   * The API key is sent in the `x-api-key` header. A configured auth header
+   * (e.g. for a proxy) is sent in addition and replaces a header with the same name.
+   */
+  private createAnthropicModel(): LanguageModelV1 {
+    const authHeader = getProviderAuthHeader(this.config.provider);
+
+    const provider = createAnthropic({
+      baseURL: this.config.baseUrl || 'https://api.anthropic.com/v1',
+      apiKey: this.config.apiKey,
+      headers: authHeader ? { [authHeader.name]: authHeader.format } : {},
+      fetch: (input, init) => this.scheduleFetch(input, init),
+    });
+    return provider(this.config.model);
+  }
+
+  /**
+   * Sends an HTTP request of a model call within the rate limits of the provider, retrying it if it is rate limited or fails with a server error
+   *
+   * Each model call of a multi-step tool loop is scheduled on its own. When
+   * the retries are used up, the last failed response is returned, so the SDK
+   * reports the error of the provider.
+   */
+  private async scheduleFetch(
+    ...[input, init]: Parameters<typeof fetch>
+  ): Promise<Response> {
+    const fetchFn = this.fetch ?? fetch;
+    let failed: Response | undefined;
+    try {
+      const { response } = await this.scheduler.schedule(
+        this.config.provider,
+        async () => {
+          // Discard the body of the previous attempt before sending the request again
+          await failed?.body?.cancel();
+          failed = undefined;
+
+          const response = await fetchFn(input, init);
+          if (response.status === 429 || response.status >= 500) {
+            failed = response;
+            throw new HttpError(
+              `HTTP error! status: ${response.status}`,
+              response.status,
+              response.headers.get('retry-after') ?? undefined,
+            );
+          }
+          return { response, usage: await readUsage(response) };
+        },
+        {
+          tokens: estimateRequestTokens(init?.body),
+          usage: ({ usage }) => usage,
+          signal: init?.signal ?? undefined,
+        },
+      );
+      return response;
+    } catch (error) {
+      if (error instanceof HttpError && failed) {
+        return failed;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Splits leading system messages into a system prompt
+   *
+   * The Anthropic Messages API takes the system prompt as a separate
+   * parameter instead of as messages.
+   */
+  private splitSystemPrompt(messages: CoreMessage[]): {
+    system?: string;
+    messages: CoreMessage[];
+  } {
+    const index = messages.findIndex((message) => message.role !== 'system');
+    const systemCount = index === -1 ? messages.length : index;
+    if (systemCount === 0) {
+      return { messages };
+    }
+
+    return {
+      system: messages
+        .slice(0, systemCount)
+        .map((message) => message.content as string)
+        .join('\n\n'),
+      messages: messages.slice(systemCount),
+    };
   }
 
   /**
@@ -147,22 +336,69 @@ export class Agent implements IAgent {
   }
 
   /**
-   * Sends input to the agent and receives its response using the OpenAI Responses API
+   * Sends input to the agent and receives its response using the configured API
    */
   async sendInput(input: AgentInput): Promise<AgentOutput> {
     try {
-      // Use the OpenAI Responses API via Vercel AI SDK
+      // Tools are answered by their mocks, so the model can run the multi-step tool loop
+      const tools = input.tools ? createMockTools(input.tools) : undefined;
+      const prompt =
+        this.providerType === ProviderType.ANTHROPIC
+          ? this.splitSystemPrompt(input.messages)
+          : { messages: input.messages };
+      // Input settings take precedence over provider settings
+      const generation = mergeGenerationSettings(
+        { temperature: DEFAULT_TEMPERATURE },
+        this.config.generation,
+        input.generation,
+      );
+      // Retries are left to the scheduler, which also applies the rate limits to each model call
       const result = await generateText({
-        model: this.provider.responses(this.config.model),
-        messages: input.messages,
-        temperature: 1.0,
+        model: this.model,
+        ...prompt,
+        temperature: generation.temperature,
+        topP: generation.topP,
+        maxTokens: generation.maxTokens,
+        seed: generation.seed,
+        stopSequences: generation.stopSequences,
+        providerOptions: generation.providerOptions as
+          | ProviderMetadata
+          | undefined,
+        tools,
+        maxSteps: tools ? MAX_TOOL_STEPS : 1,
+        maxRetries: 0,
+        abortSignal: input.signal,
       });
 
+      // Collect the tool calls of every step, with the results of the executed ones
+      const toolResults = new Map(
+        result.steps
+          .flatMap(
+            (step) =>
+              step.toolResults as Array<{
+                toolCallId: string;
+                result: unknown;
+              }>,
+          )
+          .map((toolResult) => [toolResult.toolCallId, toolResult.result]),
+      );
+      const toolCalls = result.steps.flatMap((step) =>
+        step.toolCalls.map(({ toolCallId, toolName, args }) => ({
+          toolCallId,
+          toolName,
+          args: args as unknown,
+          result: toolResults.get(toolCallId),
+        })),
+      );
+
       return {
         response: result.text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         metadata: {
           model: this.config.model,
           provider: this.config.provider,
+          api: this.config.api,
+          generation,
           usage: result.usage,
           response: result.response,
         },
@@ -182,3 +418,40 @@ export class Agent implements IAgent {
     // No cleanup needed for this simple implementation
   }
 }
+
+/**
+ * Estimates the tokens of a model request from its body, including the most tokens it may generate
+ */
+function estimateRequestTokens(body: RequestInit['body']): number {
+  if (typeof body !== 'string') {
+    return 0;
+  }
+  try {
+    const { max_tokens, max_output_tokens } = JSON.parse(body) as {
+      max_tokens?: number;
+      max_output_tokens?: number;
+    };
+    return estimateTokens(body) + (max_tokens ?? max_output_tokens ?? 0);
+  } catch {
+    return estimateTokens(body);
+  }
+}
+
+/**
+ * Reads the total tokens used from the body of a model response, or undefined if it has none
+ */
+async function readUsage(response: Response): Promise<number | undefined> {
+  try {
+    const { usage } = (await response.clone().json()) as {
+      usage?: ResponseUsage;
+    };
+    return (
+      usage?.total_tokens ??
+      (usage?.input_tokens !== undefined && usage.output_tokens !== undefined
+        ? usage.input_tokens + usage.output_tokens
+        : undefined)
+    );
+  } catch {
+    return undefined;
+  }
+}
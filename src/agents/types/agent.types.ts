@@ -1,3 +1,5 @@
+import { ToolDefinitions } from '../../tools/types/tool.types.js';
+import { GenerationSettings } from '../../config/types/config.types.js';
 import type {
   CoreMessage,
   LanguageModelUsage,
@@ -34,6 +36,17 @@ export interface AgentConfig {
    * The provider for the agent
    */
   provider: string;
+
+  /**
+   * The API the model is called with
+   * @example "responses", "chat", "completion", "messages"
+   */
+  api?: string;
+
+  /**
+   * Generation settings configured for the provider
+   */
+  generation?: GenerationSettings;
 }
 
 /**
@@ -45,6 +58,46 @@ export interface AgentInput {
    * List of messages to send to the agent
    */
   messages: CoreMessage[];
+
+  /**
+   * Tools the agent can call. Calls are answered with the canned responses
+   */
+  tools?: ToolDefinitions;
+
+  /**
+   * Generation settings for this input, overriding the provider settings
+   */
+  generation?: GenerationSettings;
+
+  /**
+   * Signal that aborts the model calls, e.g. when the test case times out
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Represents a tool call made by an agent
+ */
+export interface AgentToolCall {
+  /**
+   * The ID of the tool call
+   */
+  toolCallId: string;
+
+  /**
+   * The name of the called tool
+   */
+  toolName: string;
+
+  /**
+   * The arguments the tool was called with
+   */
+  args: unknown;
+
+  /**
+   * The result returned by the tool, if it was executed
+   */
+  result?: unknown;
 }
 
 /**
@@ -57,12 +110,19 @@ export interface AgentOutput {
    */
   response: string;
 
+  /**
+   * Tool calls made by the agent while producing the response, in order
+   */
+  toolCalls?: AgentToolCall[];
+
   /**
    * Optional metadata about the response using Vercel AI SDK types
    */
   metadata?: {
     model?: string;
     provider?: string;
+    api?: string;
+    generation?: GenerationSettings;
     id?: string;
     usage?: LanguageModelUsage;
     response?: LanguageModelResponseMetadata;
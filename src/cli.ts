@@ -3,16 +3,61 @@
 import { Command } from 'commander';
 import { version } from './utils/package-info.js';
 import { ScoringService } from './scoring/scoring.service.js';
+import { JudgeService } from './scoring/judge.service.js';
+import { JudgeScorer } from './scoring/scorers/judge.scorer.js';
+import { ScorerRegistry } from './scoring/scorer-registry.js';
 import { EvaluationExecutor } from './evaluation/evaluation-executor.js';
-import { EvaluationConfig } from './evaluation/types/evaluation.types.js';
+import {
+  EvaluationConfig,
+  EvaluationReport,
+  PassPolicySchema,
+  TestSelection,
+} from './evaluation/types/evaluation.types.js';
+import { parseGrep, selectTestCases } from './evaluation/test-selection.js';
+import { TestCaseLoader } from './parser/loader.js';
+import { ReportGenerator } from './report/report-generator.js';
+import {
+  DEFAULT_INCOMPLETE_REPORT_FILE,
+  parseReportOutputs,
+  writeReports,
+} from './report/report-output.js';
+import {
+  DEFAULT_HISTORY_DIRECTORY,
+  HistoryStore,
+} from './history/history-store.js';
+import {
+  computeTrend,
+  findFlakyTests,
+  formatTrend,
+  getGitCommit,
+  hashConfig,
+} from './history/trends.js';
+import {
+  compareReports,
+  formatComparison,
+  loadReport,
+} from './report/comparison.js';
 import { Logger } from './utils/logger.js';
+import { ConcurrencyLimiter } from './utils/worker-pool.js';
+import { InterruptHandler } from './utils/interrupt.js';
+import { Cassette } from './utils/cassette.js';
 import { EmbeddingProviderFactory } from './embeddings/factory/embedding-provider.factory.js';
 import { EmbeddingConfig } from './embeddings/types/embedding.types.js';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { IEmbeddingProvider } from './embeddings/interfaces/embedding-provider.interface.js';
+import { CachedEmbeddingProvider } from './embeddings/implementations/cached-embedding-provider.js';
+import {
+  DEFAULT_EMBEDDING_CACHE_DIRECTORY,
+  EmbeddingCache,
+  formatCacheStats,
+} from './embeddings/cache/embedding-cache.js';
 import { IAgent } from './agents/interfaces/agent.interface.js';
 import { Agent } from './agents/implementations/agent.js';
 import { getProviderBaseUrl } from './config/utils/provider-config.js';
+import {
+  GenerationSettings,
+  GenerationSettingsSchema,
+} from './config/types/config.types.js';
 import { ConfigLoader } from './config/config.loader.js';
 import { access } from 'fs/promises';
 
@@ -30,11 +75,196 @@ interface RunCommandOptions {
   directory: string;
   config?: string;
   threshold: string;
-  format: string;
+  format?: string[];
+  output?: string;
   stopOnError: boolean;
   maxConcurrency: string;
   verbose: boolean;
   provider?: string;
+  scorer: string;
+  judgeModel?: string;
+  temperature?: string;
+  topP?: string;
+  maxTokens?: string;
+  seed?: string;
+  stop?: string[];
+  baseline?: string;
+  tolerance: string;
+  history: boolean;
+  historyDir: string;
+  passPolicy: string;
+  tag?: string[];
+  excludeTag?: string[];
+  filter?: string[];
+  grep?: string;
+  list: boolean;
+  timeout?: string;
+  globalTimeout?: string;
+  resume?: string;
+  record?: string;
+  replay?: string;
+  cache: boolean;
+  cacheDir: string;
+}
+
+/**
+ * Interface for history command options
+ */
+interface HistoryCommandOptions {
+  dir: string;
+  test?: string;
+  model?: string;
+  limit: string;
+}
+
+/**
+ * Interface for cache command options
+ */
+interface CacheCommandOptions {
+  dir: string;
+}
+
+/**
+ * Interface for compare command options
+ */
+interface CompareCommandOptions {
+  tolerance: string;
+}
+
+/**
+ * Collects the values of an option that can be repeated
+ * @param value The value of the current occurrence
+ * @param previous The values of the previous occurrences
+ * @returns All values so far
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parses the score tolerance for report comparisons
+ * @param value The value of the tolerance option
+ * @returns The tolerance
+ * @throws Error if the tolerance is not a number between 0 and 1
+ */
+function parseTolerance(value: string): number {
+  const tolerance = parseFloat(value);
+  if (isNaN(tolerance) || tolerance < 0 || tolerance > 1) {
+    throw new Error(
+      'Configuration error: `--tolerance` must be a number between 0 and 1',
+    );
+  }
+  return tolerance;
+}
+
+/**
+ * Parses a timeout given on the command line
+ * @param value The value of the timeout option
+ * @param flag The name of the option, for error messages
+ * @returns The timeout in milliseconds, or undefined if the option is not given
+ * @throws Error if the timeout is not a positive integer
+ */
+function parseTimeout(
+  value: string | undefined,
+  flag: string,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout < 1) {
+    throw new Error(
+      `Configuration error: \`${flag}\` must be a positive number of milliseconds`,
+    );
+  }
+  return timeout;
+}
+
+/**
+ * Parses the generation settings given on the command line
+ * @param options The run command options
+ * @returns The generation settings, or undefined if none are given
+ * @throws Error if a setting is invalid
+ */
+function parseGenerationOptions(
+  options: RunCommandOptions,
+): GenerationSettings | undefined {
+  const numericOptions = [
+    ['temperature', '--temperature', options.temperature],
+    ['topP', '--top-p', options.topP],
+    ['maxTokens', '--max-tokens', options.maxTokens],
+    ['seed', '--seed', options.seed],
+  ] as const;
+
+  const settings: GenerationSettings = {};
+  for (const [key, flag, value] of numericOptions) {
+    if (value === undefined) {
+      continue;
+    }
+    const result = GenerationSettingsSchema.shape[key].safeParse(
+      value.trim() === '' ? NaN : Number(value),
+    );
+    if (!result.success) {
+      throw new Error(
+        `Configuration error: \`${flag}\` is invalid: ${result.error.issues[0].message}`,
+      );
+    }
+    settings[key] = result.data;
+  }
+  if (options.stop?.length) {
+    settings.stopSequences = options.stop;
+  }
+
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Parses the test selection options
+ * @param options The run command options
+ * @returns The test selection
+ * @throws Error if `--grep` is not a valid regular expression
+ */
+function parseSelectionOptions(options: RunCommandOptions): TestSelection {
+  if (options.grep !== undefined) {
+    parseGrep(options.grep);
+  }
+  return {
+    tags: options.tag,
+    excludeTags: options.excludeTag,
+    filter: options.filter,
+    grep: options.grep,
+  };
+}
+
+/**
+ * Creates the cassette that records or replays the model and embedding requests
+ * @param options The run command options
+ * @returns The cassette, or undefined if neither `--record` nor `--replay` is given
+ * @throws Error if both are given or the directory to replay does not exist
+ */
+async function parseCassetteOptions(
+  options: RunCommandOptions,
+): Promise<Cassette | undefined> {
+  if (options.record && options.replay) {
+    throw new Error(
+      'Configuration error: `--record` and `--replay` cannot be used together',
+    );
+  }
+  if (options.record) {
+    return new Cassette(resolve(process.cwd(), options.record), 'record');
+  }
+  if (options.replay) {
+    const directory = resolve(process.cwd(), options.replay);
+    try {
+      await access(directory);
+    } catch {
+      throw new Error(
+        `Configuration error: Cassette directory not found: ${directory}`,
+      );
+    }
+    return new Cassette(directory, 'replay');
+  }
+  return undefined;
 }
 
 /**
@@ -60,6 +290,10 @@ program
     '<model>',
     'The model to evaluate (e.g., gpt-*, claude-*, gato-qa:v1)',
   )
+  .argument(
+    '[paths...]',
+    'Test case files or directories to run (default: the --directory option)',
+  )
   .option('-c, --config <path>', 'Path to configuration file')
   .option(
     '-d, --directory <path>',
@@ -71,7 +305,15 @@ program
     'Score threshold for passing (0-1)',
     '0.8',
   )
-  .option('-f, --format <format>', 'Output format (json|markdown|text)', 'text')
+  .option(
+    '-f, --format <format[:file]>',
+    'Report format (json|markdown|text|junit|html), optionally with a file to write it to (can be repeated)',
+    collect,
+  )
+  .option(
+    '-o, --output <file>',
+    'File to write the report to (format inferred from the extension if no format is given)',
+  )
   .option('-s, --stop-on-error', 'Stop processing on first error', false)
   .option(
     '-m, --max-concurrency <number>',
@@ -83,13 +325,101 @@ program
     'Show verbose output including test results and provider information',
     false,
   )
+  .option(
+    '--scorer <name>',
+    'Default scorer, unless selected in test file metadata (semantic|exact|contains|regex|json-schema|judge)',
+    'semantic',
+  )
+  .option(
+    '--judge-model <model>',
+    'Model used by the judge scorer (overrides judge.model in the config file)',
+  )
+  .option('--temperature <number>', 'Sampling temperature (0-2)')
+  .option('--top-p <number>', 'Nucleus sampling probability mass (0-1)')
+  .option('--max-tokens <number>', 'Maximum number of tokens to generate')
+  .option('--seed <number>', 'Seed for sampling, if the model supports it')
+  .option('--stop <sequence>', 'Stop sequence (can be repeated)', collect)
+  .option(
+    '--baseline <file>',
+    'JSON report of an earlier run to compare against (exits with an error on regressions)',
+  )
+  .option(
+    '--tolerance <number>',
+    'Score changes up to this amount are not reported when comparing against a baseline',
+    '0.05',
+  )
+  .option(
+    '--history-dir <path>',
+    'Directory the run is appended to for trend reporting',
+    DEFAULT_HISTORY_DIRECTORY,
+  )
+  .option('--no-history', 'Do not append the run to the history')
+  .option(
+    '--cache-dir <path>',
+    'Directory the embeddings are cached in',
+    DEFAULT_EMBEDDING_CACHE_DIRECTORY,
+  )
+  .option('--no-cache', 'Do not read or write the embedding cache')
   .option(
     '-r, --runs <number>',
     'Default number of times to run each test case (applies only if not specified in file metadata)',
     '1',
   )
+  .option(
+    '--pass-policy <policy>',
+    'When a test case that runs several times passes: all, majority, pass@k or a minimum ratio of passed runs (applies only if not specified in file metadata)',
+    'all',
+  )
+  .option(
+    '--tag <tag>',
+    'Only run test cases with this tag (can be repeated)',
+    collect,
+  )
+  .option(
+    '--exclude-tag <tag>',
+    'Do not run test cases with this tag (can be repeated)',
+    collect,
+  )
+  .option(
+    '--filter <glob>',
+    'Only run test cases whose id matches the glob, e.g. "billing/**" (can be repeated)',
+    collect,
+  )
+  .option(
+    '--grep <regex>',
+    'Only run test cases whose name matches the regular expression',
+  )
+  .option(
+    '--timeout <ms>',
+    'Maximum time for each test case in milliseconds, unless set in test file metadata (overrides timeout in the config file)',
+  )
+  .option(
+    '--global-timeout <ms>',
+    'Maximum time for the whole run in milliseconds (overrides globalTimeout in the config file)',
+  )
+  .option(
+    '--resume <report>',
+    'JSON report of an interrupted run; test cases that already have a result in it are not run again',
+  )
+  .option(
+    '--record <dir>',
+    'Save the responses of the model and embedding requests to a directory',
+  )
+  .option(
+    '--replay <dir>',
+    'Serve the model and embedding responses saved with --record instead of sending requests',
+  )
+  .option(
+    '--list',
+    'List the ids of the selected test cases without running them',
+    false,
+  )
   .action(
-    async (model: string, options: RunCommandOptions & { runs?: string }) => {
+    async (
+      model: string,
+      paths: string[],
+      options: RunCommandOptions & { runs?: string },
+    ) => {
       let agent: IAgent | undefined;
       let embeddingProvider: IEmbeddingProvider | undefined;
       try {
@@ -109,9 +439,48 @@ program
           configLoader.initialize(options.config);
         }
 
+        // Resolve the test paths, checking that they exist
+        const testPaths = paths.length
+          ? paths.map((path) => resolve(process.cwd(), path))
+          : [join(process.cwd(), options.directory ?? 'examples')];
+        for (const testPath of testPaths) {
+          try {
+            await access(testPath);
+          } catch {
+            throw new Error(
+              paths.length
+                ? `Configuration error: Test path not found: ${testPath}`
+                : `Examples directory not found: ${testPath}\n\nPlease create an 'examples' directory with test case files (.txt or .md) or specify a different directory using the --directory option.`,
+            );
+          }
+        }
+        const selection = parseSelectionOptions(options);
+
+        // List the selected test cases without calling any model
+        if (options.list) {
+          const loadResult = await new TestCaseLoader().loadFromPaths(
+            testPaths,
+            options.stopOnError,
+          );
+          for (const error of loadResult.errors) {
+            Logger.warn(`${error.filePath}: ${error.message}`);
+          }
+          for (const testCase of selectTestCases(
+            loadResult.testCases,
+            selection,
+          )) {
+            console.log(testCase.id);
+          }
+          return;
+        }
+
+        // Record or replay the model and embedding requests
+        const cassette = await parseCassetteOptions(options);
+
         // Create agent - API key will be loaded from configuration
         agent = new Agent(model, {
           configPath: options.config,
+          fetch: cassette?.fetch,
         });
 
         // Get configuration from loader
@@ -133,10 +502,15 @@ program
               embeddingConfig.baseUrl ||
               getProviderBaseUrl(embeddingConfig.provider),
             apiKey: embeddingConfig.apiKey || '',
+            rateLimit: embeddingConfig.rateLimit,
+            batchSize: embeddingConfig.batchSize,
+            maxBatchTokens: embeddingConfig.maxBatchTokens,
           };
 
-          embeddingProvider =
-            EmbeddingProviderFactory.createProvider(providerConfig);
+          embeddingProvider = EmbeddingProviderFactory.createProvider(
+            providerConfig,
+            cassette?.fetch,
+          );
           await embeddingProvider.initialize(providerConfig);
         } catch (error) {
           const errorMessage =
@@ -146,8 +520,28 @@ program
           );
         }
 
+        // Serve repeated embeddings from the cache, unless requests are recorded or replayed
+        let embeddingCache: EmbeddingCache | undefined;
+        if (options.cache && !cassette) {
+          embeddingCache = new EmbeddingCache(options.cacheDir, {
+            maxSize:
+              embeddingConfig.cache?.maxSize &&
+              embeddingConfig.cache.maxSize * 1024 * 1024,
+            maxEntries: embeddingConfig.cache?.maxEntries,
+          });
+          embeddingProvider = new CachedEmbeddingProvider(
+            embeddingProvider,
+            embeddingCache,
+          );
+        }
+
         // Initialize scoring service
-        const scoringService = new ScoringService(embeddingProvider);
+        const scoringService = new ScoringService(
+          embeddingProvider,
+          embeddingConfig.maxConcurrency
+            ? new ConcurrencyLimiter(embeddingConfig.maxConcurrency)
+            : undefined,
+        );
 
         // Parse threshold
         const threshold = parseFloat(options.threshold);
@@ -177,11 +571,82 @@ program
           defaultRuns = parsedRuns;
         }
 
+        // Parse report outputs before running, so mistakes are reported early
+        const reportOutputs = parseReportOutputs(
+          options.format ?? [],
+          options.output,
+        );
+
+        // Load the baseline before running, so a missing file is reported early
+        const tolerance = parseTolerance(options.tolerance);
+        const baseline = options.baseline
+          ? await loadReport(options.baseline)
+          : undefined;
+
+        // Load the report of the interrupted run to resume
+        const previousReport = options.resume
+          ? await loadReport(options.resume)
+          : undefined;
+
+        // Parse the default pass policy for test cases that run several times
+        const passPolicy = PassPolicySchema.safeParse(options.passPolicy);
+        if (!passPolicy.success) {
+          throw new Error(
+            `Configuration error: \`--pass-policy\` is invalid: ${passPolicy.error.issues[0].message}`,
+          );
+        }
+
+        // Parse generation settings, they override provider and file settings
+        const generation = parseGenerationOptions(options);
+
+        // Initialize scorers, registering the judge scorer if a judge model is configured
+        const scorers = ScorerRegistry.createDefault(scoringService);
+        const judgeModel = options.judgeModel ?? config.judge?.model;
+        if (judgeModel) {
+          scorers.register(
+            new JudgeScorer(
+              new JudgeService(
+                new Agent(judgeModel, {
+                  configPath: options.config,
+                  fetch: cassette?.fetch,
+                }),
+                config.judge?.generation,
+              ),
+            ),
+          );
+        } else if (options.scorer === 'judge') {
+          throw new Error(
+            'Configuration error: The judge scorer requires a judge model. Set `--judge-model` or `judge.model` in the configuration file',
+          );
+        }
+
+        if (!scorers.has(options.scorer)) {
+          throw new Error(
+            `Configuration error: \`--scorer\` must be one of: ${scorers.getNames().join(', ')}`,
+          );
+        }
+
         // Create evaluation config
         const evaluationConfig: EvaluationConfig = {
           threshold,
-          outputFormat: options.format as 'json' | 'markdown' | 'text',
+          outputFormat: reportOutputs[0]?.format ?? 'text',
           maxConcurrency,
+          providerConcurrency: Object.fromEntries(
+            Object.entries(config.providers ?? {}).flatMap(
+              ([name, provider]) =>
+                provider.maxConcurrency
+                  ? [[name, provider.maxConcurrency]]
+                  : [],
+            ),
+          ),
+          scorer: options.scorer,
+          generation,
+          passPolicy: passPolicy.data,
+          selection,
+          timeout: parseTimeout(options.timeout, '--timeout') ?? config.timeout,
+          globalTimeout:
+            parseTimeout(options.globalTimeout, '--global-timeout') ??
+            config.globalTimeout,
         };
 
         if (options.verbose) {
@@ -191,34 +656,224 @@ program
           );
         }
 
-        // Check if the examples directory exists
-        const examplesDirectory = join(
-          process.cwd(),
-          options.directory ?? 'examples',
-        );
-        try {
-          await access(examplesDirectory);
-        } catch {
-          throw new Error(
-            `Examples directory not found: ${examplesDirectory}\n\nPlease create an 'examples' directory with test case files (.txt or .md) or specify a different directory using the --directory option.`,
-          );
-        }
-
         // Initialize evaluation executor
         const executor = new EvaluationExecutor(
           scoringService,
           evaluationConfig,
+          scorers,
         );
 
-        // Run evaluation, passing defaultRuns
-        await executor.evaluateFromDirectory(
-          agent,
-          examplesDirectory,
-          options.stopOnError,
-          defaultRuns, // This will always be defined (default or user-supplied)
+        // Run evaluation, passing defaultRuns, stopping gracefully on Ctrl-C
+        const interrupts = new InterruptHandler().install();
+        let report: EvaluationReport;
+        try {
+          report = await executor.evaluateFromPaths(
+            agent,
+            testPaths,
+            options.stopOnError,
+            defaultRuns, // This will always be defined (default or user-supplied)
+            {
+              stopSignal: interrupts.stopSignal,
+              abortSignal: interrupts.abortSignal,
+              previousReport,
+            },
+          );
+        } finally {
+          interrupts.dispose();
+        }
+
+        // Always write the JSON report of an interrupted run, so it can be resumed
+        const jsonReportFile = reportOutputs.find(
+          ({ format, file }) => format === 'json' && file,
+        )?.file;
+        const resumeFile =
+          report.incomplete &&
+          (jsonReportFile ?? DEFAULT_INCOMPLETE_REPORT_FILE);
+
+        // Render the report in each requested format
+        await writeReports(
+          new ReportGenerator(evaluationConfig),
+          report,
+          resumeFile && !jsonReportFile
+            ? [...reportOutputs, { format: 'json', file: resumeFile }]
+            : reportOutputs,
         );
 
+        // An incomplete run is neither recorded in the history nor compared against the baseline
+        if (resumeFile) {
+          Logger.warn(
+            `The run was interrupted, so the report is incomplete. Run again with --resume ${resumeFile} to run the remaining test cases`,
+          );
+          process.exit(interrupts.exitCode ?? 1);
+        }
+
         Logger.info('Evaluation completed');
+        if (embeddingCache) {
+          Logger.debug(
+            `Embedding cache: ${embeddingCache.hits} hits, ${embeddingCache.misses} misses`,
+          );
+        }
+
+        // Append the run to the local history, without failing the run if that is not possible
+        if (options.history) {
+          const agentConfig = agent.getConfig();
+          try {
+            await new HistoryStore(options.historyDir).append({
+              timestamp: new Date(),
+              model: agentConfig.model,
+              provider: agentConfig.provider,
+              commit: await getGitCommit(),
+              configHash: hashConfig({
+                model: agentConfig.model,
+                provider: agentConfig.provider,
+                api: agentConfig.api,
+                baseUrl: agentConfig.baseUrl,
+                providerGeneration: agentConfig.generation,
+                threshold,
+                scorer: options.scorer,
+                judgeModel,
+                generation,
+              }),
+              report,
+            });
+          } catch (error) {
+            Logger.warn(error instanceof Error ? error.message : String(error));
+          }
+        }
+
+        // Compare against the baseline, failing the run on regressions
+        if (baseline) {
+          const comparison = compareReports(baseline, report, tolerance);
+          console.log(`\n${formatComparison(comparison)}`);
+          if (comparison.hasRegressions) {
+            process.exit(1);
+          }
+        }
+      } catch (error) {
+        Logger.error(
+          `Error: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        process.exit(1);
+      }
+    },
+  );
+
+program
+  .command('history')
+  .description(
+    'Show pass rate and mean score trends of earlier runs and flag flaky tests',
+  )
+  .option('--dir <path>', 'History directory', DEFAULT_HISTORY_DIRECTORY)
+  .option('--test <id>', 'Show the trend of a single test')
+  .option('--model <model>', 'Only show runs of this model')
+  .option('--limit <number>', 'Number of most recent runs to show', '20')
+  .action(async (options: HistoryCommandOptions) => {
+    try {
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error(
+          'Configuration error: `--limit` must be a positive number',
+        );
+      }
+
+      const entries = (await new HistoryStore(options.dir).load())
+        .filter((entry) => !options.model || entry.model === options.model)
+        .slice(-limit);
+      if (entries.length === 0) {
+        Logger.info(`No runs found in ${options.dir}`);
+        return;
+      }
+
+      const trend = computeTrend(entries, options.test);
+      if (trend.length === 0) {
+        throw new Error(`No results found for test ${options.test}`);
+      }
+      const flakyTests = findFlakyTests(entries).filter(
+        (test) => !options.test || test.id === options.test,
+      );
+      console.log(formatTrend(trend, flakyTests));
+    } catch (error) {
+      Logger.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+  });
+
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the embedding cache');
+
+cacheCommand
+  .command('stats')
+  .description('Show the number and size of the cached embeddings')
+  .option(
+    '--dir <path>',
+    'Embedding cache directory',
+    DEFAULT_EMBEDDING_CACHE_DIRECTORY,
+  )
+  .action(async (options: CacheCommandOptions) => {
+    try {
+      const stats = await new EmbeddingCache(options.dir).stats();
+      console.log(formatCacheStats(stats, options.dir));
+    } catch (error) {
+      Logger.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Remove all cached embeddings')
+  .option(
+    '--dir <path>',
+    'Embedding cache directory',
+    DEFAULT_EMBEDDING_CACHE_DIRECTORY,
+  )
+  .action(async (options: CacheCommandOptions) => {
+    try {
+      const removed = await new EmbeddingCache(options.dir).clear();
+      Logger.info(`Removed ${removed} cached embeddings from ${options.dir}`);
+    } catch (error) {
+      Logger.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command('compare')
+  .description(
+    'Compare two JSON reports and exit with an error if the current one has regressions',
+  )
+  .argument('<baseline>', 'JSON report of the baseline run')
+  .argument('<current>', 'JSON report of the current run')
+  .option(
+    '--tolerance <number>',
+    'Score changes up to this amount are not reported',
+    '0.05',
+  )
+  .action(
+    async (
+      baselinePath: string,
+      currentPath: string,
+      options: CompareCommandOptions,
+    ) => {
+      try {
+        const tolerance = parseTolerance(options.tolerance);
+        const [baseline, current] = await Promise.all([
+          loadReport(baselinePath),
+          loadReport(currentPath),
+        ]);
+
+        const comparison = compareReports(baseline, current, tolerance);
+        console.log(formatComparison(comparison));
+        if (comparison.hasRegressions) {
+          process.exit(1);
+        }
       } catch (error) {
         Logger.error(
           `Error: ${error instanceof Error ? error.message : String(error)}`,
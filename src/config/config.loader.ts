@@ -125,6 +125,14 @@ export class ConfigLoader {
               ...interpolatedConfig.providers?.[ProviderType.HEBO],
               apiKey: process.env.HEBO_API_KEY,
             },
+            [ProviderType.ANTHROPIC]: {
+              provider: ProviderType.ANTHROPIC,
+              model: (DEFAULT_CONFIG as HeboEvalsConfig).providers![
+                ProviderType.ANTHROPIC
+              ].model,
+              ...interpolatedConfig.providers?.[ProviderType.ANTHROPIC],
+              apiKey: process.env.ANTHROPIC_API_KEY,
+            },
           },
           embedding: {
             provider: ProviderType.OPENAI,
@@ -194,6 +202,11 @@ export class ConfigLoader {
         `Configuration error: Model ${model} requires OpenAI provider, but ${provider} was specified`,
       );
     }
+    if (modelLower.startsWith('claude-') && providerLower !== 'anthropic') {
+      throw new Error(
+        `Configuration error: Model ${model} requires Anthropic provider, but ${provider} was specified`,
+      );
+    }
   }
 
   /**
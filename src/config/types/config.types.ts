@@ -12,6 +12,46 @@ export const ProviderType = {
 
 export type ProviderType = (typeof ProviderType)[keyof typeof ProviderType];
 
+/**
+ * APIs an OpenAI-compatible provider can be called with
+ */
+export const ProviderApi = {
+  RESPONSES: 'responses',
+  CHAT: 'chat',
+  COMPLETION: 'completion',
+} as const;
+
+export type ProviderApi = (typeof ProviderApi)[keyof typeof ProviderApi];
+
+/**
+ * Schema for the generation parameters sent with each model call
+ */
+export const GenerationSettingsSchema = z
+  .object({
+    temperature: z.number().min(0).max(2).optional(),
+    topP: z.number().min(0).max(1).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    seed: z.number().int().optional(),
+    stopSequences: z.array(z.string()).optional(),
+    providerOptions: z.record(z.string(), z.record(z.unknown())).optional(),
+  })
+  .strict();
+
+export type GenerationSettings = z.infer<typeof GenerationSettingsSchema>;
+
+/**
+ * Schema for the rate limits and retries of the requests to a provider
+ */
+export const RateLimitsSchema = z
+  .object({
+    requestsPerMinute: z.number().positive().optional(),
+    tokensPerMinute: z.number().positive().optional(),
+    maxRetries: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+export type RateLimits = z.infer<typeof RateLimitsSchema>;
+
 /**
  * Schema for provider configuration
  */
@@ -20,10 +60,17 @@ export const ProviderConfigSchema = z
     provider: z.enum([
       ProviderType.OPENAI,
       ProviderType.HEBO,
+      ProviderType.ANTHROPIC,
       ProviderType.CUSTOM,
     ]),
     baseUrl: z.string().url().optional(),
     apiKey: z.string().optional(),
+    api: z
+      .enum([ProviderApi.RESPONSES, ProviderApi.CHAT, ProviderApi.COMPLETION])
+      .optional(),
+    generation: GenerationSettingsSchema.optional(),
+    maxConcurrency: z.number().int().positive().optional(),
+    rateLimit: RateLimitsSchema.optional(),
     authHeader: z
       .object({
         name: z.string(),
@@ -35,6 +82,16 @@ export const ProviderConfigSchema = z
 
 export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
 
+/**
+ * Schema for the size limits of the embedding cache, with the size on disk in megabytes
+ */
+export const EmbeddingCacheConfigSchema = z.object({
+  maxSize: z.number().positive().optional(),
+  maxEntries: z.number().int().positive().optional(),
+});
+
+export type EmbeddingCacheConfig = z.infer<typeof EmbeddingCacheConfigSchema>;
+
 /**
  * Schema for embedding configuration
  */
@@ -44,11 +101,28 @@ export const EmbeddingConfigSchema = z
     model: z.string(),
     baseUrl: z.string().url().optional(),
     apiKey: z.string().optional(),
+    maxConcurrency: z.number().int().positive().optional(),
+    rateLimit: RateLimitsSchema.optional(),
+    batchSize: z.number().int().positive().optional(),
+    maxBatchTokens: z.number().int().positive().optional(),
+    cache: EmbeddingCacheConfigSchema.optional(),
   })
   .passthrough();
 
 export type EmbeddingConfig = z.infer<typeof EmbeddingConfigSchema>;
 
+/**
+ * Schema for the LLM judge configuration
+ */
+export const JudgeConfigSchema = z
+  .object({
+    model: z.string(),
+    generation: GenerationSettingsSchema.optional(),
+  })
+  .passthrough();
+
+export type JudgeConfig = z.infer<typeof JudgeConfigSchema>;
+
 /**
  * Schema for the main configuration
  */
@@ -57,6 +131,9 @@ export const HeboEvalsConfigSchema = z
     providers: z.record(z.string(), ProviderConfigSchema).optional(),
     defaultProvider: z.string().optional(),
     embedding: EmbeddingConfigSchema.optional(),
+    judge: JudgeConfigSchema.optional(),
+    timeout: z.number().int().positive().optional(),
+    globalTimeout: z.number().int().positive().optional(),
   })
   .passthrough();
 
@@ -75,6 +152,10 @@ export const DEFAULT_CONFIG: Partial<HeboEvalsConfig> = {
       provider: ProviderType.HEBO,
       baseUrl: 'https://app.hebo.ai',
     },
+    [ProviderType.ANTHROPIC]: {
+      provider: ProviderType.ANTHROPIC,
+      baseUrl: 'https://api.anthropic.com/v1',
+    },
   },
   embedding: {
     provider: ProviderType.HEBO,
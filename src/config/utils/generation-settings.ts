@@ -0,0 +1,41 @@
+import { GenerationSettings } from '../types/config.types.js';
+
+/**
+ * Merges generation settings, later settings taking precedence over earlier ones
+ *
+ * Values that are not set do not override earlier values. Provider options are
+ * merged for each provider, so options for different providers can be set in
+ * different places.
+ *
+ * @param settings The settings to merge, from lowest to highest precedence
+ * @returns The effective settings
+ */
+export function mergeGenerationSettings(
+  ...settings: Array<GenerationSettings | undefined>
+): GenerationSettings {
+  const result: GenerationSettings = {};
+
+  for (const layer of settings) {
+    if (!layer) {
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined || key === 'providerOptions') {
+        continue;
+      }
+      Object.assign(result, { [key]: value });
+    }
+
+    for (const [provider, options] of Object.entries(
+      layer.providerOptions ?? {},
+    )) {
+      result.providerOptions = {
+        ...result.providerOptions,
+        [provider]: { ...result.providerOptions?.[provider], ...options },
+      };
+    }
+  }
+
+  return result;
+}
@@ -3,7 +3,12 @@
  */
 
 import { ConfigLoader } from '../config.loader.js';
-import { ProviderType } from '../types/config.types.js';
+import {
+  GenerationSettings,
+  ProviderApi,
+  ProviderType,
+  RateLimits,
+} from '../types/config.types.js';
 
 /**
  * Gets the base URL for a given provider
@@ -22,7 +27,7 @@ export function getProviderBaseUrl(provider: string): string {
     const defaultUrls = {
       [ProviderType.OPENAI]: 'https://api.openai.com/v1',
       [ProviderType.HEBO]: 'https://app.hebo.ai',
-      [ProviderType.ANTHROPIC]: 'https://api.anthropic.com',
+      [ProviderType.ANTHROPIC]: 'https://api.anthropic.com/v1',
       [ProviderType.CUSTOM]: 'http://localhost:80', // Default URL for custom providers without path
     };
 
@@ -69,3 +74,54 @@ export function getProviderAuthHeader(
     return undefined;
   }
 }
+
+/**
+ * Gets the API an OpenAI-compatible provider is called with
+ * @param provider The provider name
+ * @returns The configured API, or the Responses API if none is configured
+ */
+export function getProviderApi(provider: string): ProviderApi {
+  const configLoader = ConfigLoader.getInstance();
+
+  try {
+    return (
+      configLoader.getProviderConfig(provider).api ?? ProviderApi.RESPONSES
+    );
+  } catch {
+    return ProviderApi.RESPONSES;
+  }
+}
+
+/**
+ * Gets the generation settings configured for a provider
+ * @param provider The provider name
+ * @returns The configured generation settings, or undefined if none are configured
+ */
+export function getProviderGenerationSettings(
+  provider: string,
+): GenerationSettings | undefined {
+  const configLoader = ConfigLoader.getInstance();
+
+  try {
+    return configLoader.getProviderConfig(provider).generation;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gets the rate limits configured for a provider
+ * @param provider The provider name
+ * @returns The configured rate limits, or undefined if none are configured
+ */
+export function getProviderRateLimits(
+  provider: string,
+): RateLimits | undefined {
+  const configLoader = ConfigLoader.getInstance();
+
+  try {
+    return configLoader.getProviderConfig(provider).rateLimit;
+  } catch {
+    return undefined;
+  }
+}
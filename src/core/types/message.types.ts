@@ -1,4 +1,6 @@
 import type { CoreMessage } from 'ai';
+import { ToolDefinitions } from '../../tools/types/tool.types.js';
+import { GenerationSettings } from '../../config/types/config.types.js';
 
 /**
  * Base role types for messages
@@ -39,6 +41,19 @@ export enum MessageRole {
   DEVELOPER = 'developer',
 }
 
+/**
+ * Deterministic check on the agent response, declared with an `expect ...:` marker
+ *
+ * - contains: the response must contain the value (case-insensitive)
+ * - not_contains: the response must not contain the value (case-insensitive)
+ * - regex: the response must match the value as a regular expression
+ * - json: the response must be valid JSON, matching the value as a JSON Schema if given
+ */
+export interface Assertion {
+  type: 'contains' | 'not_contains' | 'regex' | 'json';
+  value: string;
+}
+
 /**
  * Test case definition using Vercel AI SDK CoreMessage type
  */
@@ -46,10 +61,66 @@ export interface TestCase {
   id: string;
   name: string;
   messageBlocks: CoreMessage[];
+  /**
+   * Path of the file the test case was loaded from, relative to the loader root directory
+   */
+  file?: string;
+  /**
+   * Longer description of what the test case checks (from test case metadata)
+   */
+  description?: string;
+  /**
+   * Tags used to select test cases (from file and test case metadata)
+   */
+  tags?: string[];
+  /**
+   * Minimum score for the test case to pass, overriding the configured threshold (from file or test case metadata)
+   */
+  threshold?: number;
+  /**
+   * Whether to skip the test case (from file or test case metadata)
+   */
+  skip?: boolean;
+  /**
+   * Whether to run only this test case and the other test cases marked `only` (from file or test case metadata)
+   */
+  only?: boolean;
+  /**
+   * Maximum time in milliseconds to wait for the agent response (from file or test case metadata)
+   */
+  timeout?: number;
   /**
    * Number of times to run this test case (from global metadata or CLI override)
    */
   runs?: number;
+  /**
+   * Policy that decides whether the test case passes when it runs several times (from file or test case metadata)
+   */
+  passPolicy?: string;
+  /**
+   * Name of the scorer used for this test case (from file or test case metadata)
+   */
+  scorer?: string;
+  /**
+   * Tools the agent can call, with canned responses (from file or test case metadata)
+   */
+  tools?: ToolDefinitions;
+  /**
+   * Paths of shared tool fixtures files, relative to the test file. The loader adds their tools to `tools`
+   */
+  fixtures?: string[];
+  /**
+   * Generation settings for the agent calls (from file or test case metadata)
+   */
+  generation?: GenerationSettings;
+  /**
+   * Other acceptable answers, declared with `assistant (alt):` after the final assistant message
+   */
+  alternatives?: string[];
+  /**
+   * Assertions the response must pass, declared after the final assistant message
+   */
+  assertions?: Assertion[];
 }
 
 // Re-export CoreMessage as BaseMessage for backward compatibility during migration
@@ -0,0 +1,410 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from 'fs/promises';
+import { dirname, join } from 'path';
+import { Logger } from '../../utils/logger.js';
+
+/**
+ * Directory the embedding cache is stored in by default
+ */
+export const DEFAULT_EMBEDDING_CACHE_DIRECTORY = '.hebo-evals/embeddings';
+
+/**
+ * Maximum size of the cache on disk by default, in bytes
+ */
+const DEFAULT_MAX_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Maximum number of embeddings kept in memory by default
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Number of bytes of each embedding value on disk
+ */
+const VALUE_BYTES = Float64Array.BYTES_PER_ELEMENT;
+
+/**
+ * Options of the embedding cache
+ */
+export interface EmbeddingCacheOptions {
+  /**
+   * Maximum size of the cache on disk in bytes; the least recently used embeddings are removed beyond it
+   */
+  maxSize?: number;
+
+  /**
+   * Maximum number of embeddings kept in memory
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Number and size of the cached embeddings of a model
+ */
+export interface EmbeddingCacheModelStats {
+  provider: string;
+  model: string;
+  entries: number;
+  size: number;
+}
+
+/**
+ * Number and size of the cached embeddings on disk
+ */
+export interface EmbeddingCacheStats {
+  entries: number;
+  size: number;
+  models: EmbeddingCacheModelStats[];
+}
+
+/**
+ * A cached embedding file
+ */
+interface CacheFile {
+  provider: string;
+  model: string;
+  path: string;
+  size: number;
+  modified: number;
+}
+
+/**
+ * Persistent cache of embeddings, keyed by provider, model and SHA-256 hash of the text
+ *
+ * Embeddings are stored as binary files in a directory for each provider and
+ * model, with an in-memory LRU in front of them. When the files exceed the
+ * maximum size, the least recently used ones are removed. Files are written
+ * to a temporary file first, so an interrupted write never leaves a partial
+ * embedding behind; empty or truncated files are removed when they are read.
+ * Failures to read or write the cache are treated as misses and never fail
+ * a request.
+ */
+export class EmbeddingCache {
+  private readonly memory = new Map<string, number[]>();
+  private readonly maxSize: number;
+  private readonly maxEntries: number;
+  private size = 0;
+  private sizing?: Promise<void>;
+  private pruning?: Promise<void>;
+
+  /**
+   * Number of embeddings found in the cache
+   */
+  hits = 0;
+
+  /**
+   * Number of embeddings not found in the cache
+   */
+  misses = 0;
+
+  /**
+   * @param directory The cache directory
+   * @param options The size limits of the cache
+   */
+  constructor(
+    private readonly directory: string = DEFAULT_EMBEDDING_CACHE_DIRECTORY,
+    options: EmbeddingCacheOptions = {},
+  ) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Gets a cached embedding
+   * @param provider The embedding provider
+   * @param model The embedding model
+   * @param text The embedded text
+   * @returns Promise that resolves with the embedding, or undefined if it is not cached
+   */
+  async get(
+    provider: string,
+    model: string,
+    text: string,
+  ): Promise<number[] | undefined> {
+    const path = this.getPath(provider, model, text);
+    const cached = this.memory.get(path);
+    if (cached) {
+      // Move the embedding to the end, as the most recently used
+      this.memory.delete(path);
+      this.memory.set(path, cached);
+      this.hits++;
+      return cached;
+    }
+
+    try {
+      const buffer = await readFile(path);
+      if (buffer.byteLength === 0 || buffer.byteLength % VALUE_BYTES !== 0) {
+        await this.remove(path, buffer.byteLength);
+        this.misses++;
+        return undefined;
+      }
+      const embedding = Array.from(
+        { length: buffer.byteLength / VALUE_BYTES },
+        (_, index) => buffer.readDoubleLE(index * VALUE_BYTES),
+      );
+      // Mark the file as recently used, so it is removed last
+      const now = new Date();
+      await utimes(path, now, now);
+      this.remember(path, embedding);
+      this.hits++;
+      return embedding;
+    } catch {
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * Caches an embedding
+   * @param provider The embedding provider
+   * @param model The embedding model
+   * @param text The embedded text
+   * @param embedding The embedding of the text
+   * @returns Promise that resolves when the embedding is written
+   */
+  async set(
+    provider: string,
+    model: string,
+    text: string,
+    embedding: number[],
+  ): Promise<void> {
+    const path = this.getPath(provider, model, text);
+    this.remember(path, embedding);
+
+    const buffer = Buffer.alloc(embedding.length * VALUE_BYTES);
+    embedding.forEach((value, index) =>
+      buffer.writeDoubleLE(value, index * VALUE_BYTES),
+    );
+    try {
+      // Count the files already on disk once, before the first write
+      this.sizing ??= this.listFiles().then((files) => {
+        this.size = files.reduce((total, file) => total + file.size, 0);
+      });
+      await this.sizing;
+
+      // An overwritten file no longer counts
+      const previous = await stat(path).then(
+        ({ size }) => size,
+        () => 0,
+      );
+      await mkdir(dirname(path), { recursive: true });
+      const temporary = `${path}.${randomBytes(8).toString('hex')}.tmp`;
+      try {
+        await writeFile(temporary, buffer);
+        await rename(temporary, path);
+      } catch (error) {
+        await rm(temporary, { force: true });
+        throw error;
+      }
+      this.size += buffer.byteLength - previous;
+      if (this.size > this.maxSize) {
+        this.pruning ??= this.prune().finally(() => {
+          this.pruning = undefined;
+        });
+        await this.pruning;
+      }
+    } catch (error) {
+      Logger.warn(
+        `Failed to write embedding cache ${this.directory}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Counts the cached embeddings and their size on disk, by provider and model
+   * @returns Promise that resolves with the cache statistics
+   */
+  async stats(): Promise<EmbeddingCacheStats> {
+    const models = new Map<string, EmbeddingCacheModelStats>();
+    for (const { provider, model, size } of await this.listFiles()) {
+      const key = `${provider}/${model}`;
+      const stats = models.get(key) ?? { provider, model, entries: 0, size: 0 };
+      stats.entries++;
+      stats.size += size;
+      models.set(key, stats);
+    }
+
+    const all = Array.from(models.values());
+    return {
+      entries: all.reduce((total, model) => total + model.entries, 0),
+      size: all.reduce((total, model) => total + model.size, 0),
+      models: all,
+    };
+  }
+
+  /**
+   * Removes all cached embeddings
+   * @returns Promise that resolves with the number of removed embeddings
+   * @throws Error if the cache directory cannot be removed
+   */
+  async clear(): Promise<number> {
+    const { entries } = await this.stats();
+    try {
+      await rm(this.directory, { recursive: true, force: true });
+    } catch (error) {
+      throw new Error(
+        `Failed to clear embedding cache ${this.directory}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+    this.memory.clear();
+    this.size = 0;
+    return entries;
+  }
+
+  /**
+   * Removes a corrupt file, so it is written again
+   */
+  private async remove(path: string, size: number): Promise<void> {
+    try {
+      await rm(path, { force: true });
+      // Only a cache that has counted its files has to subtract it
+      if (this.sizing) {
+        await this.sizing;
+        this.size -= size;
+      }
+    } catch (error) {
+      Logger.warn(
+        `Failed to remove corrupt embedding cache file ${path}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Gets the path of the file of an embedding
+   */
+  private getPath(provider: string, model: string, text: string): string {
+    const hash = createHash('sha256').update(text).digest('hex');
+    return join(
+      this.directory,
+      encodeURIComponent(provider),
+      encodeURIComponent(model),
+      `${hash}.bin`,
+    );
+  }
+
+  /**
+   * Keeps an embedding in memory, dropping the least recently used embeddings beyond the maximum
+   */
+  private remember(path: string, embedding: number[]): void {
+    this.memory.delete(path);
+    this.memory.set(path, embedding);
+    for (const key of this.memory.keys()) {
+      if (this.memory.size <= this.maxEntries) {
+        break;
+      }
+      this.memory.delete(key);
+    }
+  }
+
+  /**
+   * Removes the least recently used files until the cache fits within the maximum size
+   */
+  private async prune(): Promise<void> {
+    const files = (await this.listFiles()).sort(
+      (a, b) => a.modified - b.modified,
+    );
+    let size = files.reduce((total, file) => total + file.size, 0);
+    for (const file of files) {
+      if (size <= this.maxSize) {
+        break;
+      }
+      await rm(file.path, { force: true });
+      this.memory.delete(file.path);
+      size -= file.size;
+    }
+    this.size = size;
+  }
+
+  /**
+   * Lists the files of all cached embeddings
+   */
+  private async listFiles(): Promise<CacheFile[]> {
+    const files: CacheFile[] = [];
+    for (const provider of await this.readDirectory(this.directory)) {
+      for (const model of await this.readDirectory(
+        join(this.directory, provider),
+      )) {
+        const directory = join(this.directory, provider, model);
+        for (const name of await this.readDirectory(directory)) {
+          if (!name.endsWith('.bin')) {
+            continue;
+          }
+          const path = join(directory, name);
+          try {
+            const { size, mtimeMs } = await stat(path);
+            files.push({
+              provider: decodeURIComponent(provider),
+              model: decodeURIComponent(model),
+              path,
+              size,
+              modified: mtimeMs,
+            });
+          } catch {
+            // The file was removed in the meantime
+          }
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Lists the names in a directory, or none if it does not exist
+   */
+  private async readDirectory(directory: string): Promise<string[]> {
+    try {
+      return await readdir(directory);
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * Formats the statistics of the embedding cache as plain text
+ * @param stats The cache statistics
+ * @param directory The cache directory
+ * @returns The formatted statistics, with a line for each provider and model
+ */
+export function formatCacheStats(
+  stats: EmbeddingCacheStats,
+  directory: string,
+): string {
+  return [
+    `Embedding cache: ${directory}`,
+    `Entries: ${stats.entries}`,
+    `Size: ${formatSize(stats.size)}`,
+    ...stats.models.map(
+      ({ provider, model, entries, size }) =>
+        `  ${provider}/${model}: ${entries} entries, ${formatSize(size)}`,
+    ),
+  ].join('\n');
+}
+
+/**
+ * Formats a size in bytes with the largest fitting unit
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
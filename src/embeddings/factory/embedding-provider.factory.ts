@@ -11,11 +11,13 @@ export class EmbeddingProviderFactory {
   /**
    * Creates an embedding provider based on the configuration
    * @param config The embedding configuration
+   * @param fetchFn Optional function that sends the embedding requests, e.g. to record or replay them
    * @returns The created embedding provider
    * @throws Error if the configuration is invalid
    */
   static createProvider(
     config: EmbeddingSystemConfig | EmbeddingConfig,
+    fetchFn?: typeof fetch,
   ): IEmbeddingProvider {
     const providerConfig =
       'defaultProvider' in config
@@ -44,6 +46,11 @@ export class EmbeddingProviderFactory {
 
     // Use the unified provider for both OpenAI and Hebo
     // since Hebo embeddings are just OpenAI embeddings with different URL/auth
-    return new EmbeddingProvider(providerConfig, providerConfig.apiKey);
+    return new EmbeddingProvider(
+      providerConfig,
+      providerConfig.apiKey,
+      undefined,
+      fetchFn,
+    );
   }
 }
@@ -0,0 +1,115 @@
+import { IEmbeddingProvider } from '../interfaces/embedding-provider.interface.js';
+import {
+  EmbeddingConfig,
+  EmbeddingResponse,
+} from '../types/embedding.types.js';
+import { EmbeddingCache } from '../cache/embedding-cache.js';
+
+/**
+ * Embedding provider that serves embeddings from a cache before asking another provider
+ *
+ * Embeddings are cached by the provider and model of the wrapped provider, so
+ * changing either does not serve stale embeddings.
+ */
+export class CachedEmbeddingProvider implements IEmbeddingProvider {
+  /**
+   * @param provider The provider that generates the embeddings that are not cached
+   * @param cache The embedding cache
+   */
+  constructor(
+    private readonly provider: IEmbeddingProvider,
+    private readonly cache: EmbeddingCache,
+  ) {}
+
+  /**
+   * Gets the configuration of the wrapped provider
+   * @returns The provider's configuration
+   */
+  getConfig(): EmbeddingConfig {
+    return this.provider.getConfig();
+  }
+
+  /**
+   * Initializes the wrapped provider
+   * @param config The embedding configuration
+   * @returns Promise that resolves when initialization is complete
+   */
+  initialize(config: EmbeddingConfig): Promise<void> {
+    return this.provider.initialize(config);
+  }
+
+  /**
+   * Gets the embedding of a text from the cache, or generates and caches it
+   * @param text The text to generate an embedding for
+   * @param signal Optional signal that aborts the request
+   * @returns Promise that resolves with the embedding response
+   * @throws Error if the embedding is not cached and the wrapped provider fails
+   */
+  async generateEmbedding(
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse> {
+    const { provider, model } = this.provider.getConfig();
+    const cached = await this.cache.get(provider, model, text);
+    if (cached) {
+      return { embedding: cached, metadata: { model, provider, cached: true } };
+    }
+
+    const response = await this.provider.generateEmbedding(text, signal);
+    await this.cache.set(provider, model, text, response.embedding);
+    return response;
+  }
+
+  /**
+   * Gets the embeddings of texts from the cache, and generates and caches the others in a batch
+   * @param texts The texts to generate embeddings for
+   * @param signal Optional signal that aborts the requests
+   * @returns Promise that resolves with the embedding responses, in the order of the texts
+   * @throws Error if an embedding is not cached and the wrapped provider fails
+   */
+  async generateEmbeddings(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse[]> {
+    const { provider, model } = this.provider.getConfig();
+    const responses: (EmbeddingResponse | undefined)[] = await Promise.all(
+      texts.map(async (text) => {
+        const cached = await this.cache.get(provider, model, text);
+        return cached
+          ? { embedding: cached, metadata: { model, provider, cached: true } }
+          : undefined;
+      }),
+    );
+
+    const missing = texts.filter((_, index) => !responses[index]);
+    if (missing.length > 0) {
+      const generated = await this.provider.generateEmbeddings(missing, signal);
+      await Promise.all(
+        missing.map((text, index) =>
+          this.cache.set(provider, model, text, generated[index].embedding),
+        ),
+      );
+      let next = 0;
+      responses.forEach((response, index) => {
+        responses[index] = response ?? generated[next++];
+      });
+    }
+    return responses as EmbeddingResponse[];
+  }
+
+  /**
+   * Validates the configuration of the wrapped provider
+   * @returns Promise that resolves with true if the configuration is valid
+   */
+  validateConfig(): Promise<boolean> {
+    return this.provider.validateConfig();
+  }
+
+  /**
+   * Cleans up the wrapped provider
+   * @returns Promise that resolves when cleanup is complete
+   */
+  cleanup(): Promise<void> {
+    return this.provider.cleanup();
+  }
+}
@@ -3,7 +3,21 @@ import {
   EmbeddingConfig,
   EmbeddingResponse,
 } from '../types/embedding.types.js';
-import { Logger } from '../../utils/logger.js';
+import {
+  HttpError,
+  RequestScheduler,
+  estimateTokens,
+} from '../../utils/request-scheduler.js';
+
+/**
+ * Maximum number of texts in a single embedding request by default
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Maximum estimated number of tokens in a single embedding request by default
+ */
+const DEFAULT_MAX_BATCH_TOKENS = 50_000;
 
 interface OpenAIEmbeddingResponse {
   data: Array<{
@@ -28,11 +42,34 @@ interface OpenAIEmbeddingResponse {
 export class EmbeddingProvider extends BaseEmbeddingProvider {
   private baseUrl: string;
   private apiKey: string;
+  private scheduler: RequestScheduler;
+  private fetch: typeof fetch;
 
-  constructor(config: EmbeddingConfig, apiKey: string) {
+  /**
+   * @param config The embedding configuration
+   * @param apiKey The API key of the provider
+   * @param scheduler Scheduler for the embedding requests (defaults to the shared scheduler)
+   * @param fetchFn Function that sends the embedding requests, e.g. to record or replay them (defaults to the global fetch)
+   */
+  constructor(
+    config: EmbeddingConfig,
+    apiKey: string,
+    scheduler: RequestScheduler = RequestScheduler.getInstance(),
+    fetchFn: typeof fetch = (input, init) => fetch(input, init),
+  ) {
     super(config);
     this.baseUrl = config.baseUrl || this.getDefaultBaseUrl(config.provider);
     this.apiKey = apiKey;
+    this.scheduler = scheduler;
+    this.fetch = fetchFn;
+    this.scheduler.configure(this.schedulerKey, config.rateLimit);
+  }
+
+  /**
+   * Gets the key of the embedding requests in the scheduler, separate from the model calls of the same provider
+   */
+  private get schedulerKey(): string {
+    return `embedding:${this.config.provider}`;
   }
 
   /**
@@ -67,12 +104,12 @@ export class EmbeddingProvider extends BaseEmbeddingProvider {
   }
 
   /**
-   * Gets the request body for the embedding request
+   * Gets the request body for the embedding request, with a single text or a batch of texts
    */
-  private getRequestBody(text: string): object {
+  private getRequestBody(input: string | string[]): object {
     const baseBody = {
       model: this.config.model,
-      input: text,
+      input,
     };
 
     // Hebo requires base64 encoding format to return embeddings as base64
@@ -88,16 +125,34 @@ export class EmbeddingProvider extends BaseEmbeddingProvider {
 
   /**
    * Processes the embedding response based on the provider format
+   * @returns The embeddings in the order of the texts of the request
    */
-  private processEmbeddingResponse(data: OpenAIEmbeddingResponse): number[] {
-    if (!data.data?.[0]?.embedding) {
+  private processEmbeddingResponse(
+    data: OpenAIEmbeddingResponse,
+    count: number,
+  ): number[][] {
+    if (!Array.isArray(data.data) || data.data.length !== count) {
       throw new Error(
         `Invalid response format from ${this.config.provider} API`,
       );
     }
 
-    const embedding = data.data[0].embedding;
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(({ embedding }) => {
+        if (!embedding) {
+          throw new Error(
+            `Invalid response format from ${this.config.provider} API`,
+          );
+        }
+        return this.decodeEmbedding(embedding);
+      });
+  }
 
+  /**
+   * Decodes a single embedding based on the provider format
+   */
+  private decodeEmbedding(embedding: number[] | string): number[] {
     // Handle Hebo's base64-encoded response
     if (this.config.provider === 'hebo' && typeof embedding === 'string') {
       // Validate base64 string (allow and strip whitespace/newlines)
@@ -158,86 +213,138 @@ export class EmbeddingProvider extends BaseEmbeddingProvider {
   /**
    * Processes the text and returns the embedding response
    */
-  protected async processText(text: string): Promise<EmbeddingResponse> {
-    // Validate input text
-    if (!text || text.trim().length === 0) {
+  protected async processText(
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse> {
+    const [response] = await this.processTexts([text], signal);
+    return response;
+  }
+
+  /**
+   * Processes the texts in batches and returns their embedding responses
+   *
+   * Each batch has at most the configured number of texts and estimated
+   * tokens. Batches are sent through the scheduler, which applies the rate
+   * limits of the provider and retries rate limited requests and server errors.
+   */
+  protected override async processTexts(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse[]> {
+    // Validate input texts
+    if (texts.some((text) => !text || text.trim().length === 0)) {
       throw new Error('Input text cannot be empty');
     }
 
-    const maxRetries = 3;
-    const retryDelay = 1000; // 1 second
-    let lastError: Error | null = null;
+    const batches = splitBatches(
+      texts,
+      this.config.batchSize ?? DEFAULT_BATCH_SIZE,
+      this.config.maxBatchTokens ?? DEFAULT_MAX_BATCH_TOKENS,
+    );
+    const responses = await Promise.all(
+      batches.map((batch) => this.processBatch(batch, signal)),
+    );
+    return responses.flat();
+  }
+
+  /**
+   * Sends a single embedding request for a batch of texts
+   */
+  private async processBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse[]> {
+    try {
+      const data = await this.scheduler.schedule(
+        this.schedulerKey,
+        async () => {
+          const response = await this.fetch(`${this.baseUrl}/embeddings`, {
+            method: 'POST',
+            headers: this.getAuthHeaders(),
+            body: JSON.stringify(
+              this.getRequestBody(texts.length === 1 ? texts[0] : texts),
+            ),
+            signal,
+          });
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}/embeddings`, {
-          method: 'POST',
-          headers: this.getAuthHeaders(),
-          body: JSON.stringify(this.getRequestBody(text)),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => null);
-          const errorMessage = `HTTP error! status: ${response.status}${
-            errorData ? ` - ${JSON.stringify(errorData)}` : ''
-          }`;
-
-          // If it's a timeout or server error, retry
-          if (response.status >= 500 || response.status === 504) {
-            if (attempt < maxRetries) {
-              Logger.debug(
-                `Attempt ${attempt} failed with ${errorMessage}. Retrying in ${retryDelay}ms...`,
-              );
-              await new Promise((resolve) => setTimeout(resolve, retryDelay));
-              continue;
-            }
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => null);
+            throw new HttpError(
+              `HTTP error! status: ${response.status}${
+                errorData ? ` - ${JSON.stringify(errorData)}` : ''
+              }`,
+              response.status,
+              response.headers.get('retry-after') ?? undefined,
+            );
           }
-          throw new Error(errorMessage);
-        }
 
-        const data = (await response.json()) as OpenAIEmbeddingResponse;
-        const embedding = this.processEmbeddingResponse(data);
+          return (await response.json()) as OpenAIEmbeddingResponse;
+        },
+        {
+          tokens: texts.reduce(
+            (total, text) => total + estimateTokens(text),
+            0,
+          ),
+          usage: (data) => data.usage?.total_tokens,
+          signal,
+        },
+      );
 
-        return {
+      // The usage is for the whole request, so it is reported once, on its first embedding
+      return this.processEmbeddingResponse(data, texts.length).map(
+        (embedding, index) => ({
           embedding,
           metadata: {
             model: this.config.model,
             provider: this.config.provider,
-            usage: data.usage,
+            ...(index === 0 && data.usage && { usage: data.usage }),
           },
-        };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        // If it's not the last attempt and it's a retryable error, wait and retry
-        if (
-          attempt < maxRetries &&
-          (lastError.message.includes('status: 5') ||
-            lastError.message.includes('status: 504'))
-        ) {
-          Logger.debug(
-            `Attempt ${attempt} failed with ${lastError.message}. Retrying in ${retryDelay}ms...`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, retryDelay));
-          continue;
-        }
-
-        // If it's the last attempt or a non-retryable error, throw immediately
-        if (
-          attempt === maxRetries ||
-          (!lastError.message.includes('status: 5') &&
-            !lastError.message.includes('status: 504'))
-        ) {
-          throw new Error(`Failed to generate embedding: ${lastError.message}`);
-        }
-      }
+        }),
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to generate embedding: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
     }
+  }
+}
 
-    // This should never be reached due to the throw in the catch block
-    throw new Error(
-      `Failed to generate embedding after ${maxRetries} attempts. Last error: ${
-        lastError?.message || 'Unknown error'
-      }`,
-    );
+/**
+ * Splits texts into batches with at most the given number of texts and estimated tokens
+ *
+ * A text that alone exceeds the token limit is sent in a batch of its own.
+ *
+ * @param texts The texts to split
+ * @param batchSize Maximum number of texts in a batch
+ * @param maxTokens Maximum estimated number of tokens in a batch
+ * @returns The batches, in the order of the texts
+ */
+export function splitBatches(
+  texts: string[],
+  batchSize: number,
+  maxTokens: number,
+): string[][] {
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let tokens = 0;
+  for (const text of texts) {
+    const textTokens = estimateTokens(text);
+    if (
+      batch.length > 0 &&
+      (batch.length >= batchSize || tokens + textTokens > maxTokens)
+    ) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+    }
+    batch.push(text);
+    tokens += textTokens;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
   }
+  return batches;
 }
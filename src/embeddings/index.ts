@@ -5,6 +5,10 @@ export * from './types/embedding.types';
 
 // Implementations - unified provider handles OpenAI-compatible APIs
 export * from './implementations/embedding-provider';
+export * from './implementations/cached-embedding-provider';
+
+// Cache
+export * from './cache/embedding-cache';
 
 // Configuration and factory
 export * from './config/embedding.config';
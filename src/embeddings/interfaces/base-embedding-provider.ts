@@ -70,22 +70,66 @@ export abstract class BaseEmbeddingProvider implements IEmbeddingProvider {
   /**
    * Generates an embedding for the given text
    * @param text The text to generate an embedding for
+   * @param signal Optional signal that aborts the request
    * @returns Promise that resolves with the embedding response
    * @throws Error if the provider is not initialized
    */
-  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
+  async generateEmbedding(
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse> {
     if (!this.isInitialized) {
       throw new Error(
         'Embedding provider must be initialized before generating embeddings',
       );
     }
-    return this.processText(text);
+    return this.processText(text, signal);
+  }
+
+  /**
+   * Generates embeddings for the given texts
+   * @param texts The texts to generate embeddings for
+   * @param signal Optional signal that aborts the requests
+   * @returns Promise that resolves with the embedding responses, in the order of the texts
+   * @throws Error if the provider is not initialized
+   */
+  async generateEmbeddings(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse[]> {
+    if (!this.isInitialized) {
+      throw new Error(
+        'Embedding provider must be initialized before generating embeddings',
+      );
+    }
+    return texts.length > 0 ? this.processTexts(texts, signal) : [];
   }
 
   /**
    * Processes the text and returns the embedding response
    * @param text The text to process
+   * @param signal Optional signal that aborts the request
    * @returns Promise that resolves with the embedding response
    */
-  protected abstract processText(text: string): Promise<EmbeddingResponse>;
+  protected abstract processText(
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse>;
+
+  /**
+   * Processes the texts and returns their embedding responses
+   *
+   * Processes each text separately by default; providers that accept several
+   * texts in a request override it.
+   *
+   * @param texts The texts to process
+   * @param signal Optional signal that aborts the requests
+   * @returns Promise that resolves with the embedding responses, in the order of the texts
+   */
+  protected processTexts(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse[]> {
+    return Promise.all(texts.map((text) => this.processText(text, signal)));
+  }
 }
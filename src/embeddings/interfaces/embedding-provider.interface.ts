@@ -26,10 +26,26 @@ export interface IEmbeddingProvider {
   /**
    * Generates an embedding for the given text
    * @param text The text to generate an embedding for
+   * @param signal Optional signal that aborts the request
    * @returns Promise that resolves with the embedding response
-   * @throws Error if the provider is not initialized or if the request fails
+   * @throws Error if the provider is not initialized, if the request fails or if it is aborted
    */
-  generateEmbedding(text: string): Promise<EmbeddingResponse>;
+  generateEmbedding(
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse>;
+
+  /**
+   * Generates embeddings for the given texts, in as few requests as the provider allows
+   * @param texts The texts to generate embeddings for
+   * @param signal Optional signal that aborts the requests
+   * @returns Promise that resolves with the embedding responses, in the order of the texts
+   * @throws Error if the provider is not initialized, if a request fails or if it is aborted
+   */
+  generateEmbeddings(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse[]>;
 
   /**
    * Validates the provider's configuration
@@ -1,3 +1,5 @@
+import { RateLimits } from '../../config/types/config.types.js';
+
 /**
  * Configuration for embedding providers
  */
@@ -24,6 +26,23 @@ export interface EmbeddingConfig {
    * API key for the embedding provider
    */
   apiKey: string;
+
+  /**
+   * Rate limits and retries of the embedding requests
+   */
+  rateLimit?: RateLimits;
+
+  /**
+   * Maximum number of texts in a single embedding request
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum estimated number of tokens in a single embedding request
+   * @default 50000
+   */
+  maxBatchTokens?: number;
 }
 
 /**
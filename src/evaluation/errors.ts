@@ -0,0 +1,19 @@
+/**
+ * Error thrown when a test case or a run takes longer than its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown when a test case is aborted because the run was interrupted
+ */
+export class InterruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterruptedError';
+  }
+}
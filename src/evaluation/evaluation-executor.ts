@@ -5,30 +5,83 @@ import { performance } from 'perf_hooks';
 import { TestCase } from '../core/types/message.types.js';
 import { TestCaseLoader } from '../parser/loader.js';
 import { ScoringService } from '../scoring/scoring.service.js';
+import { SemanticScorer } from '../scoring/scorers/semantic.scorer.js';
+import { DEFAULT_SCORER, ScorerRegistry } from '../scoring/scorer-registry.js';
 import { ReportGenerator } from '../report/report-generator.js';
 import {
   EvaluationConfig,
   EvaluationReport,
+  EvaluationRunOptions,
+  PassPolicy,
+  TestSelection,
 } from './types/evaluation.types.js';
+import { DEFAULT_PASS_POLICY, aggregateRuns } from './run-statistics.js';
+import { selectTestCases } from './test-selection.js';
 import { TestCaseEvaluation } from './types/test-case.types.js';
-import { formatTestCasePlain } from '../utils/formatter.js';
+import {
+  formatAlternativePlain,
+  formatAssertionPlain,
+  formatMatchedAnswerPlain,
+  formatTestCasePlain,
+  formatToolCallPlain,
+} from '../utils/formatter.js';
+import { AssertionResult, evaluateAssertions } from '../scoring/assertions.js';
+import { ToolCallResult, evaluateToolCalls } from '../scoring/tool-calls.js';
+import { GenerationSettings } from '../config/types/config.types.js';
+import { mergeGenerationSettings } from '../config/utils/generation-settings.js';
+import { ConcurrencyLimits, runPool } from '../utils/worker-pool.js';
+import { abortable, abortReason, createTimeoutSignal } from '../utils/abort.js';
+import { InterruptedError, TimeoutError } from './errors.js';
+import type { CoreMessage } from 'ai';
 
 /**
  * Service for executing test cases against an agent
  */
 export class EvaluationExecutor {
   private testCaseLoader: TestCaseLoader;
-  private scoringService: ScoringService;
+  private readonly scoringService: ScoringService;
+  private scorers: ScorerRegistry;
   private reportGenerator: ReportGenerator;
   private readonly threshold: number;
   private readonly maxConcurrency: number;
+  private readonly defaultScorer: string;
+  private readonly generation?: GenerationSettings;
+  private readonly passPolicy: PassPolicy;
+  private readonly selection?: TestSelection;
+  private readonly providerLimits: ConcurrencyLimits;
+  private readonly timeout?: number;
+  private readonly globalTimeout?: number;
 
-  constructor(scoringService: ScoringService, config: EvaluationConfig) {
+  /**
+   * @param scoringService The service used for embedding similarity scoring
+   * @param config The evaluation configuration
+   * @param scorers Optional scorer registry (defaults to the built-in scorers)
+   * @throws Error if the configured default scorer is not registered
+   */
+  constructor(
+    scoringService: ScoringService,
+    config: EvaluationConfig,
+    scorers: ScorerRegistry = ScorerRegistry.createDefault(scoringService),
+  ) {
     this.testCaseLoader = new TestCaseLoader();
     this.scoringService = scoringService;
+    this.scorers = scorers;
     this.reportGenerator = new ReportGenerator(config);
     this.threshold = config.threshold ?? 0.8;
     this.maxConcurrency = config.maxConcurrency ?? 5;
+    this.defaultScorer = config.scorer ?? DEFAULT_SCORER;
+    this.generation = config.generation;
+    this.passPolicy = config.passPolicy ?? DEFAULT_PASS_POLICY;
+    this.selection = config.selection;
+    this.providerLimits = new ConcurrencyLimits(config.providerConcurrency);
+    this.timeout = config.timeout;
+    this.globalTimeout = config.globalTimeout;
+
+    if (!this.scorers.has(this.defaultScorer)) {
+      throw new Error(
+        `Configuration error: Unknown scorer: ${this.defaultScorer}. Available scorers are: ${this.scorers.getNames().join(', ')}`,
+      );
+    }
   }
 
   /**
@@ -44,39 +97,151 @@ export class EvaluationExecutor {
     directoryPath: string,
     stopOnError: boolean = true,
     defaultRuns?: number,
+  ): Promise<EvaluationReport> {
+    return this.evaluateFromPaths(
+      agent,
+      [directoryPath],
+      stopOnError,
+      defaultRuns,
+    );
+  }
+
+  /**
+   * Loads and executes the selected test cases from files and directories and generates a report
+   *
+   * When the run is stopped or aborted, the report only has the test cases
+   * whose runs all completed and is marked as incomplete. Test cases that
+   * have a result in the previous report are not run again, and that result
+   * is kept instead.
+   *
+   * @param agent The agent to test
+   * @param paths The paths of test case files and directories
+   * @param stopOnError Whether to stop processing files after the first error (default: true)
+   * @param defaultRuns Optional default number of times to run each test case (overridden by testCase.runs if present)
+   * @param options Optional signals that interrupt the run and the report of an earlier run to resume
+   * @returns Promise that resolves with the evaluation report
+   */
+  public async evaluateFromPaths(
+    agent: IAgent,
+    paths: string[],
+    stopOnError: boolean = true,
+    defaultRuns?: number,
+    options: EvaluationRunOptions = {},
   ): Promise<EvaluationReport> {
     const startTime = performance.now();
 
     // First load the test cases
-    const loadResult = await this.testCaseLoader.loadFromDirectory(
-      directoryPath,
+    const loadResult = await this.testCaseLoader.loadFromPaths(
+      paths,
       stopOnError,
     );
+    const selected = this.selectTestCases(loadResult.testCases);
+
+    // Keep the results of an earlier run for the test cases it already ran
+    const previousResults = new Map(
+      (options.previousReport?.results ?? []).map((result) => [
+        result.testCase.id,
+        result,
+      ]),
+    );
+    const resumed = selected.filter((testCase) =>
+      previousResults.has(testCase.id),
+    ).length;
+    if (resumed > 0) {
+      Logger.info(
+        `Resuming: skipping ${resumed} test cases that already have results`,
+      );
+    }
 
     // Expand test cases according to testCase.runs (if present), otherwise defaultRuns (if provided), otherwise default 1
     const expandedTestCases: TestCase[] = [];
-    for (const testCase of loadResult.testCases) {
+    const originals = new Map<TestCase, TestCase>();
+    const runCounts = new Map<TestCase, number>();
+    for (const testCase of selected) {
+      if (previousResults.has(testCase.id)) {
+        continue;
+      }
       // Use testCase.runs if defined, otherwise use defaultRuns (which is always provided by the CLI), fallback to 1 for type safety
       let runs = testCase.runs ?? defaultRuns ?? 1;
+      runCounts.set(testCase, runs);
       for (let i = 0; i < runs; i++) {
         // Optionally, append a suffix to the testCase id for uniqueness
-        expandedTestCases.push({
+        const run = {
           ...testCase,
           id: runs > 1 ? `${testCase.id} run #${i + 1}` : testCase.id,
-        });
+        };
+        expandedTestCases.push(run);
+        originals.set(run, testCase);
       }
     }
 
-    // Then execute them in parallel
-    const results = await this.executeTestCasesInParallel(
-      agent,
-      expandedTestCases,
-      this.maxConcurrency,
+    // The run times out from here, so the global timeout also covers the embeddings made up front
+    const { signal, dispose } = createTimeoutSignal(
+      this.globalTimeout,
+      () => new TimeoutError(`Run timed out after ${this.globalTimeout}ms`),
+      options.abortSignal,
     );
+    let runResults: TestCaseEvaluation[];
+    try {
+      // Embed the expected answers in batches up front, so scoring only waits for the responses
+      await this.embedExpectedAnswers(Array.from(runCounts.keys()), signal);
+
+      // Then execute them in parallel, aborting the test cases that are still running when the run times out or is aborted
+      runResults = await this.executeTestCasesInParallel(
+        agent,
+        expandedTestCases,
+        this.maxConcurrency,
+        signal,
+        options.stopSignal,
+      );
+    } finally {
+      dispose();
+    }
 
-    const duration = (performance.now() - startTime) / 1000; // Convert to seconds
+    // Combine the runs of each test case, so every test case counts once
+    const runsByTestCase = new Map<TestCase, TestCaseEvaluation[]>();
+    for (const result of runResults) {
+      const testCase = originals.get(result.testCase) ?? result.testCase;
+      runsByTestCase.set(testCase, [
+        ...(runsByTestCase.get(testCase) ?? []),
+        result,
+      ]);
+    }
 
-    const passedTests = results.filter((r) => r.success).length;
+    // Report the kept results first, then the test cases whose runs all completed
+    const incomplete = runResults.length < expandedTestCases.length;
+    const results = [
+      ...selected.flatMap((testCase) => {
+        const previous = previousResults.get(testCase.id);
+        return previous ? [previous] : [];
+      }),
+      ...Array.from(runsByTestCase)
+        .filter(
+          ([testCase, runs]) => runs.length >= (runCounts.get(testCase) ?? 1),
+        )
+        .map(([testCase, runs]) =>
+          this.toReportResult(
+            runs.length > 1
+              ? aggregateRuns(
+                  testCase,
+                  runs,
+                  testCase.passPolicy ?? this.passPolicy,
+                )
+              : runs[0],
+          ),
+        ),
+    ];
+    if (incomplete) {
+      Logger.warn(
+        `Run interrupted: ${selected.length - results.length} of ${selected.length} test cases did not complete`,
+      );
+    }
+
+    const duration =
+      (performance.now() - startTime) / 1000 + // Convert to seconds
+      (resumed > 0 ? (options.previousReport?.duration ?? 0) : 0);
+
+    const passedTests = results.filter((r) => r.passed).length;
     const totalTests = results.length;
     const failedTests = totalTests - passedTests;
     const passRate = totalTests > 0 ? passedTests / totalTests : 0;
@@ -89,37 +254,62 @@ export class EvaluationExecutor {
       passedTests,
       failedTests,
       passRate,
-      results: results.map((result) => ({
-        testCase: {
-          id: result.testCaseId,
-          input: formatTestCasePlain({
-            id: result.testCaseId,
-            name: result.testCaseId,
-            messageBlocks: result.testCase.messageBlocks.slice(0, -1),
-          }),
-          expected: formatTestCasePlain({
-            id: result.testCaseId,
-            name: result.testCaseId,
-            messageBlocks: [
-              result.testCase.messageBlocks[
-                result.testCase.messageBlocks.length - 1
-              ],
-            ],
-          }),
-        },
-        score: result.score,
-        passed: result.success,
-        error: result.error,
-        timestamp: new Date(),
-        response: result.response || '',
-      })),
+      results,
       timestamp: new Date(),
       duration,
     };
+    if (incomplete) {
+      report.incomplete = true;
+    }
 
     return report;
   }
 
+  /**
+   * Converts the evaluation result of a test case to a report result
+   */
+  private toReportResult(
+    result: TestCaseEvaluation,
+  ): EvaluationReport['results'][number] {
+    return {
+      testCase: {
+        id: result.testCaseId,
+        file: result.testCase.file,
+        description: result.testCase.description,
+        tags: result.testCase.tags,
+        input: this.formatInput(result.testCase),
+        expected: this.formatExpected(result.testCase),
+        answers: this.getExpectedAnswers(result.testCase),
+      },
+      score: result.score,
+      threshold: result.testCase.threshold,
+      passed: result.success,
+      status: result.status,
+      executionTime: result.executionTime,
+      error: result.error,
+      rationale: result.rationale,
+      matchedAnswer: result.matchedAnswer,
+      assertions: result.assertionResults?.map(
+        ({ assertion, passed, message }) => ({
+          ...assertion,
+          passed,
+          message,
+        }),
+      ),
+      toolCalls: result.toolCallResults?.map(
+        ({ expected, passed, message }) => ({
+          ...expected,
+          passed,
+          message,
+        }),
+      ),
+      generation: result.generation,
+      runs: result.runStatistics,
+      timestamp: new Date(),
+      response: result.response || '',
+    };
+  }
+
   /**
    * Loads and executes test cases from a directory
    * @param agent The agent to test
@@ -157,20 +347,42 @@ export class EvaluationExecutor {
     );
     return this.executeTestCasesInParallel(
       agent,
-      loadResult.testCases,
+      this.selectTestCases(loadResult.testCases),
       this.maxConcurrency,
     );
   }
 
+  /**
+   * Selects the test cases to run according to the configured selection and their `skip` and `only` metadata
+   * @param testCases The loaded test cases
+   * @returns The test cases to run, in order
+   */
+  private selectTestCases(testCases: TestCase[]): TestCase[] {
+    const selected = selectTestCases(testCases, this.selection);
+    if (selected.length < testCases.length) {
+      Logger.info(
+        `Skipping ${testCases.length - selected.length} of ${testCases.length} test cases`,
+      );
+    }
+    return selected;
+  }
+
   /**
    * Executes a single test case against an agent
+   *
+   * The test case is aborted when its timeout expires or the given signal
+   * aborts, and then has the `timeout` status.
+   *
    * @param agent The agent to test
    * @param testCase The test case to execute
+   * @param signal Optional signal that aborts the test case, e.g. when the run times out
    * @returns Promise that resolves with the evaluation result
+   * @throws InterruptedError if the signal aborts because the run was interrupted
    */
   public async executeTestCase(
     agent: IAgent,
     testCase: TestCase,
+    signal?: AbortSignal,
   ): Promise<TestCaseEvaluation> {
     const startTime = performance.now();
     const agentConfig = agent.getConfig();
@@ -178,89 +390,33 @@ export class EvaluationExecutor {
       `Executing test case ${testCase.id} with provider: ${agentConfig.provider}`,
     );
 
+    // The timeout starts once the agent call has a provider slot, so waiting for one does not count
+    const timeout = testCase.timeout ?? this.timeout;
+    const {
+      signal: testSignal,
+      start,
+      dispose,
+    } = createTimeoutSignal(
+      timeout,
+      () => new TimeoutError(`Test case timed out after ${timeout}ms`),
+      signal,
+      true,
+    );
+
     try {
-      if (testCase.messageBlocks.length < 2) {
-        throw new Error(
-          'Test case must have at least 2 message blocks: input and expected output',
-        );
+      if (testSignal.aborted) {
+        throw abortReason(testSignal);
       }
-
-      // Get input messages based on provider
-      const inputMessages = testCase.messageBlocks.slice(0, -1);
-      Logger.debug(
-        `Using message format: sending ${inputMessages.length} messages of conversation history`,
+      return await abortable(
+        this.runTestCase(agent, testCase, startTime, testSignal, start),
+        testSignal,
       );
-
-      // Get the expected response from the last message block
-      const expectedResponse =
-        testCase.messageBlocks[testCase.messageBlocks.length - 1];
-
-      const input: AgentInput = {
-        messages: inputMessages,
-      };
-
-      // Execute the test
-      const response = await agent.sendInput(input);
-      const executionTime = performance.now() - startTime;
-
-      // Only calculate similarity score if we have a valid response
-      if (!response.response || response.response.trim().length === 0) {
-        throw new Error('Agent returned an empty response');
+    } catch (error) {
+      // An interrupted test case has no result, so it can run again when the run is resumed
+      if (error instanceof InterruptedError) {
+        throw error;
       }
 
-      // Calculate semantic similarity score
-      Logger.debug('Calculating similarity score');
-
-      // Extract text content from CoreMessage
-      const expectedContent =
-        typeof expectedResponse.content === 'string'
-          ? expectedResponse.content
-          : Array.isArray(expectedResponse.content)
-            ? expectedResponse.content
-                .map((part) => (part.type === 'text' ? part.text : ''))
-                .join('')
-            : '';
-
-      const score = await this.scoringService.scoreStrings(
-        response.response.trim(),
-        expectedContent.trim(),
-      );
-
-      // Consider it a success if score is above threshold (0.8 by default)
-      const isMatch = score >= this.threshold;
-
-      // Log test result using the new format
-      Logger.testResult(testCase.id, isMatch, {
-        error: isMatch ? undefined : 'Response mismatch',
-        score,
-        executionTime,
-        testCase: {
-          input: formatTestCasePlain({
-            id: testCase.id,
-            name: testCase.id,
-            messageBlocks: testCase.messageBlocks.slice(0, -1),
-          }),
-          expected: formatTestCasePlain({
-            id: testCase.id,
-            name: testCase.id,
-            messageBlocks: [
-              testCase.messageBlocks[testCase.messageBlocks.length - 1],
-            ],
-          }),
-        },
-        response: response.response,
-      });
-
-      return {
-        testCaseId: testCase.id,
-        success: isMatch,
-        error: isMatch ? undefined : 'Response mismatch',
-        score,
-        executionTime,
-        response: response.response,
-        testCase,
-      };
-    } catch (error) {
       const executionTime = performance.now() - startTime;
 
       // Log test result using the new format
@@ -269,18 +425,8 @@ export class EvaluationExecutor {
         score: 0,
         executionTime,
         testCase: {
-          input: formatTestCasePlain({
-            id: testCase.id,
-            name: testCase.id,
-            messageBlocks: testCase.messageBlocks.slice(0, -1),
-          }),
-          expected: formatTestCasePlain({
-            id: testCase.id,
-            name: testCase.id,
-            messageBlocks: [
-              testCase.messageBlocks[testCase.messageBlocks.length - 1],
-            ],
-          }),
+          input: this.formatInput(testCase),
+          expected: this.formatExpected(testCase),
         },
         response: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -288,36 +434,393 @@ export class EvaluationExecutor {
       return {
         testCaseId: testCase.id,
         success: false,
+        status: error instanceof TimeoutError ? 'timeout' : 'error',
         error: error instanceof Error ? error.message : 'Unknown error',
         score: 0,
         executionTime,
         response: error instanceof Error ? error.message : 'Unknown error',
         testCase,
       };
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Sends the input of a test case to the agent and checks the response
+   * @param agent The agent to test
+   * @param testCase The test case to execute
+   * @param startTime The time the test case started, for the execution time
+   * @param signal Signal that aborts the agent call and scoring
+   * @param onStart Function called when the agent call gets a provider slot
+   * @returns Promise that resolves with the evaluation result
+   * @throws Error if the test case is invalid or the agent or scorer fails
+   */
+  private async runTestCase(
+    agent: IAgent,
+    testCase: TestCase,
+    startTime: number,
+    signal: AbortSignal,
+    onStart: () => void,
+  ): Promise<TestCaseEvaluation> {
+    if (testCase.messageBlocks.length < 2) {
+      throw new Error(
+        'Test case must have at least 2 message blocks: input and expected output',
+      );
+    }
+
+    // Split the conversation into the input messages and the expected turn
+    const { input: inputMessages, expected: expectedMessages } =
+      this.splitMessages(testCase);
+    Logger.debug(
+      `Using message format: sending ${inputMessages.length} messages of conversation history`,
+    );
+
+    // Get the expected response from the last message block
+    const expectedResponse = expectedMessages[expectedMessages.length - 1];
+    const expectedToolCalls = expectedMessages.flatMap((message) =>
+      message.role === 'assistant' && Array.isArray(message.content)
+        ? message.content.filter((part) => part.type === 'tool-call')
+        : [],
+    );
+
+    const input: AgentInput = {
+      messages: inputMessages,
+      tools: testCase.tools,
+      signal,
+    };
+    // Configured settings take precedence over the test case settings
+    if (testCase.generation || this.generation) {
+      input.generation = mergeGenerationSettings(
+        testCase.generation,
+        this.generation,
+      );
+    }
+
+    // Execute the test
+    const response = await this.providerLimits.run(
+      agent.getConfig().provider,
+      () => {
+        onStart();
+        return agent.sendInput(input);
+      },
+      signal,
+    );
+    const executionTime = performance.now() - startTime;
+
+    // Only calculate similarity score if we have a valid response
+    if (
+      (!response.response || response.response.trim().length === 0) &&
+      expectedToolCalls.length === 0
+    ) {
+      throw new Error('Agent returned an empty response');
+    }
+
+    // Extract text content from CoreMessage
+    const expectedContent = this.getExpectedContent(expectedResponse);
+
+    // Score the response with the scorer selected by the test case or configuration,
+    // unless the test case only declares assertions or tool calls (empty expected answer)
+    const alternatives = testCase.alternatives ?? [];
+    const checksOnly =
+      expectedContent.trim() === '' &&
+      alternatives.length === 0 &&
+      (!!testCase.assertions?.length || expectedToolCalls.length > 0);
+    let score = 1;
+    let rationale: string | undefined;
+    let matchedAnswer: number | undefined;
+    let isMatch = true;
+    if (!checksOnly) {
+      const scorer = this.scorers.get(testCase.scorer ?? this.defaultScorer);
+      Logger.debug(`Scoring response with ${scorer.name} scorer`);
+
+      // Keep the best score across the expected answer and its alternatives
+      const expectedAnswers = [expectedContent, ...alternatives];
+      for (let i = 0; i < expectedAnswers.length; i++) {
+        const result = await scorer.score({
+          conversation: inputMessages,
+          actual: response.response.trim(),
+          expected: expectedAnswers[i].trim(),
+          signal,
+        });
+        if (i === 0 || result.score > score) {
+          ({ score, rationale } = result);
+          matchedAnswer = i;
+        }
+      }
+      if (alternatives.length === 0) {
+        matchedAnswer = undefined;
+      }
+
+      // Consider it a match if score is above the test case or configured threshold (0.8 by default)
+      isMatch = score >= (testCase.threshold ?? this.threshold);
+    }
+
+    // Check the deterministic assertions, every one of them must pass
+    let assertionResults: AssertionResult[] | undefined;
+    if (testCase.assertions?.length) {
+      Logger.debug(`Checking ${testCase.assertions.length} assertions`);
+      assertionResults = await evaluateAssertions(
+        response.response,
+        testCase.assertions,
+      );
+    }
+
+    // Check the expected tool calls against the calls the agent made, in order
+    let toolCallResults: ToolCallResult[] | undefined;
+    if (expectedToolCalls.length > 0) {
+      Logger.debug(`Checking ${expectedToolCalls.length} tool calls`);
+      toolCallResults = evaluateToolCalls(
+        expectedToolCalls,
+        response.toolCalls ?? [],
+      );
+    }
+
+    // Without an expected answer, the score is the fraction of passed checks
+    if (checksOnly) {
+      const checks = [...(assertionResults ?? []), ...(toolCallResults ?? [])];
+      score = checks.filter((check) => check.passed).length / checks.length;
+    }
+
+    const failures = [
+      ...(isMatch ? [] : ['Response mismatch']),
+      ...(assertionResults ?? [])
+        .filter((result) => !result.passed)
+        .map(
+          (result) =>
+            `Assertion failed: ${formatAssertionPlain(result.assertion)}${
+              result.message ? ` (${result.message})` : ''
+            }`,
+        ),
+      ...(toolCallResults ?? [])
+        .filter((result) => !result.passed)
+        .map(
+          (result) =>
+            `Tool call failed: ${result.expected.toolName} ${JSON.stringify(
+              result.expected.args,
+            )} (${result.message})`,
+        ),
+    ];
+    const success = failures.length === 0;
+    const error = success ? undefined : failures.join('; ');
+
+    // Log test result using the new format
+    Logger.testResult(testCase.id, success, {
+      error,
+      score,
+      rationale,
+      matchedAnswer:
+        matchedAnswer === undefined
+          ? undefined
+          : formatMatchedAnswerPlain(
+              matchedAnswer,
+              [expectedContent, ...alternatives][matchedAnswer].trim(),
+            ),
+      executionTime,
+      testCase: {
+        input: this.formatInput(testCase),
+        expected: this.formatExpected(testCase),
+      },
+      response: [
+        response.response,
+        ...(response.toolCalls ?? []).map(formatToolCallPlain),
+      ]
+        .filter((line) => line.trim() !== '')
+        .join('\n'),
+    });
+
+    return {
+      testCaseId: testCase.id,
+      success,
+      status: success ? 'passed' : 'failed',
+      error,
+      score,
+      executionTime,
+      response: response.response,
+      rationale,
+      matchedAnswer,
+      assertionResults,
+      toolCalls: response.toolCalls,
+      toolCallResults,
+      generation: response.metadata?.generation,
+      testCase,
+    };
+  }
+
+  /**
+   * Embeds the expected answers and alternatives of the test cases scored by embedding similarity
+   *
+   * Failures are only logged, as the answers are embedded again when the
+   * test cases are scored.
+   *
+   * @param testCases The test cases that will run
+   * @param signal The signal that aborts the run
+   */
+  private async embedExpectedAnswers(
+    testCases: TestCase[],
+    signal: AbortSignal,
+  ): Promise<void> {
+    const texts = new Set<string>();
+    for (const testCase of testCases) {
+      const scorer = testCase.scorer ?? this.defaultScorer;
+      if (
+        testCase.messageBlocks.length < 2 ||
+        !this.scorers.has(scorer) ||
+        !(this.scorers.get(scorer) instanceof SemanticScorer)
+      ) {
+        continue;
+      }
+      for (const answer of this.getExpectedAnswers(testCase) ?? []) {
+        if (answer !== '') {
+          texts.add(answer);
+        }
+      }
     }
+    if (texts.size === 0) {
+      return;
+    }
+
+    Logger.debug(`Embedding ${texts.size} expected answers`);
+    try {
+      await this.scoringService.embedStrings(Array.from(texts), signal);
+    } catch (error) {
+      // An aborted run marks its test cases as aborted instead
+      if (signal.aborted) {
+        return;
+      }
+      Logger.warn(
+        `Failed to embed the expected answers: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Gets the expected answer and its alternatives as they are scored, in the order of `matchedAnswer`
+   * @param testCase The test case
+   * @returns The trimmed answers, or undefined if the test case has no expected turn
+   */
+  private getExpectedAnswers(testCase: TestCase): string[] | undefined {
+    if (testCase.messageBlocks.length < 2) {
+      return undefined;
+    }
+    const { expected } = this.splitMessages(testCase);
+    return [
+      this.getExpectedContent(expected[expected.length - 1]),
+      ...(testCase.alternatives ?? []),
+    ].map((answer) => answer.trim());
+  }
+
+  /**
+   * Extracts the text content of an expected message, which is empty for tool results
+   * @param message The expected message
+   * @returns The text of the message
+   */
+  private getExpectedContent(message: CoreMessage): string {
+    if (message.role === 'tool') {
+      return '';
+    }
+    return typeof message.content === 'string'
+      ? message.content
+      : message.content
+          .map((part) => (part.type === 'text' ? part.text : ''))
+          .join('');
+  }
+
+  /**
+   * Splits a conversation into the messages sent to the agent and the expected turn
+   *
+   * The expected turn is the last message, unless the conversation ends with
+   * assistant and tool messages that contain tool calls. In that case the whole
+   * run of assistant and tool messages is expected, so tool calls can be checked.
+   *
+   * @param testCase The test case to split
+   * @returns The input messages and the expected messages
+   */
+  private splitMessages(testCase: TestCase): {
+    input: CoreMessage[];
+    expected: CoreMessage[];
+  } {
+    const blocks = testCase.messageBlocks;
+    let start = blocks.length - 1;
+    while (
+      start > 1 &&
+      (blocks[start - 1].role === 'assistant' ||
+        blocks[start - 1].role === 'tool')
+    ) {
+      start--;
+    }
+
+    const hasToolCalls = blocks
+      .slice(start)
+      .some(
+        (block) =>
+          block.role === 'assistant' &&
+          Array.isArray(block.content) &&
+          block.content.some((part) => part.type === 'tool-call'),
+      );
+    if (!hasToolCalls) {
+      start = blocks.length - 1;
+    }
+
+    return { input: blocks.slice(0, start), expected: blocks.slice(start) };
+  }
+
+  /**
+   * Formats the conversation that is sent to the agent as plain text
+   * @param testCase The test case to format
+   * @returns The formatted input messages
+   */
+  private formatInput(testCase: TestCase): string {
+    return formatTestCasePlain({
+      id: testCase.id,
+      name: testCase.id,
+      messageBlocks: this.splitMessages(testCase).input,
+    });
+  }
+
+  /**
+   * Formats the expected answer, its alternatives and assertions as plain text
+   * @param testCase The test case to format
+   * @returns The formatted expected output
+   */
+  private formatExpected(testCase: TestCase): string {
+    return [
+      formatTestCasePlain({
+        id: testCase.id,
+        name: testCase.id,
+        messageBlocks: this.splitMessages(testCase).expected,
+      }),
+      ...(testCase.alternatives ?? []).map(formatAlternativePlain),
+      ...(testCase.assertions ?? []).map(formatAssertionPlain),
+    ].join('\n');
   }
 
   /**
    * Executes test cases in parallel with a maximum concurrency limit
+   *
+   * The next test case starts as soon as any running test case finishes.
+   * Agent calls are also subject to the concurrency limit of their provider.
+   * Test cases that are not started when the stop signal aborts, and test
+   * cases that are interrupted, have no result.
+   *
    * @param agent The agent to test
    * @param testCases The test cases to execute
    * @param maxConcurrency Maximum number of concurrent executions
-   * @returns Promise that resolves with the evaluation results
+   * @param signal Optional signal that aborts the test cases that are running or not started yet
+   * @param stopSignal Optional signal that stops starting new test cases
+   * @returns Promise that resolves with the evaluation results of the completed test cases, in test case order
    */
   public async executeTestCasesInParallel(
     agent: IAgent,
     testCases: TestCase[],
     maxConcurrency: number,
+    signal?: AbortSignal,
+    stopSignal?: AbortSignal,
   ): Promise<TestCaseEvaluation[]> {
-    const results: TestCaseEvaluation[] = [];
-    const chunks: TestCase[][] = [];
     let completedTests = 0;
 
-    // Split test cases into chunks based on maxConcurrency
-    for (let i = 0; i < testCases.length; i += maxConcurrency) {
-      chunks.push(testCases.slice(i, i + maxConcurrency));
-    }
-
     Logger.info(
       `Executing ${testCases.length} test cases in parallel with max concurrency ${maxConcurrency}`,
     );
@@ -325,25 +828,39 @@ export class EvaluationExecutor {
     // Start loading indicator
     Logger.startLoading('Running test cases', testCases.length);
 
-    // Process chunks sequentially, but execute test cases within each chunk in parallel
-    for (const chunk of chunks) {
-      Logger.debug(`Processing chunk of ${chunk.length} test cases`);
-      const chunkResults = await Promise.all(
-        chunk.map((testCase) =>
-          this.executeTestCase(agent, testCase).then((result) => {
-            // Update loading progress after each test case completes
-            completedTests++;
-            Logger.updateLoadingProgress(completedTests);
-            return result;
-          }),
-        ),
+    let results: (TestCaseEvaluation | undefined)[];
+    try {
+      results = await runPool(
+        testCases,
+        maxConcurrency,
+        async (testCase): Promise<TestCaseEvaluation | undefined> => {
+          if (stopSignal?.aborted) {
+            return undefined;
+          }
+
+          let result: TestCaseEvaluation;
+          try {
+            result = await this.executeTestCase(agent, testCase, signal);
+          } catch (error) {
+            if (error instanceof InterruptedError) {
+              return undefined;
+            }
+            throw error;
+          }
+
+          // Update loading progress after each test case completes
+          completedTests++;
+          Logger.updateLoadingProgress(completedTests);
+          return result;
+        },
       );
-      results.push(...chunkResults);
+    } finally {
+      // Stop loading indicator, also when the pool throws
+      Logger.stopLoading();
     }
 
-    // Stop loading indicator
-    Logger.stopLoading();
-
-    return results;
+    return results.filter(
+      (result): result is TestCaseEvaluation => result !== undefined,
+    );
   }
 }
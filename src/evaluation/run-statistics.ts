@@ -0,0 +1,109 @@
+import { TestCase } from '../core/types/message.types.js';
+import { PassPolicy, RunStatistics } from './types/evaluation.types.js';
+import { TestCaseEvaluation } from './types/test-case.types.js';
+
+/**
+ * Pass policy used when neither the test case nor the configuration sets one
+ */
+export const DEFAULT_PASS_POLICY = 'all';
+
+/**
+ * Checks whether the runs of a test case pass under a pass policy
+ * @param passed Whether each run passed, in run order
+ * @param policy The pass policy
+ * @returns True if the test case passes
+ */
+export function passesPolicy(passed: boolean[], policy: PassPolicy): boolean {
+  const passedRuns = passed.filter(Boolean).length;
+
+  if (policy === 'all') {
+    return passedRuns === passed.length;
+  }
+  if (policy === 'majority') {
+    return passedRuns > passed.length / 2;
+  }
+  const passAtK = policy.match(/^pass@(\d+)$/);
+  if (passAtK) {
+    return passed.slice(0, Number(passAtK[1])).some(Boolean);
+  }
+  return passedRuns / passed.length >= Number(policy);
+}
+
+/**
+ * Combines the runs of a test case into a single evaluation
+ *
+ * The score and execution time are the means over the runs, and the test
+ * passes if the runs satisfy the pass policy. The response and other details
+ * come from the first passed run if the test passes, and from the lowest
+ * scoring failed run otherwise.
+ *
+ * @param testCase The test case that was run
+ * @param runs The evaluations of the runs, in run order
+ * @param policy The pass policy
+ * @returns The combined evaluation, with the run statistics
+ */
+export function aggregateRuns(
+  testCase: TestCase,
+  runs: TestCaseEvaluation[],
+  policy: PassPolicy,
+): TestCaseEvaluation {
+  const scores = runs.map((run) => run.score);
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const passedRuns = runs.filter((run) => run.success).length;
+  const success = passesPolicy(
+    runs.map((run) => run.success),
+    policy,
+  );
+
+  const representative = success
+    ? (runs.find((run) => run.success) ?? runs[0])
+    : runs
+        .filter((run) => !run.success)
+        .reduce((lowest, run) => (run.score < lowest.score ? run : lowest));
+
+  const runStatistics: RunStatistics = {
+    count: runs.length,
+    passed: passedRuns,
+    passPolicy: policy,
+    mean,
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    stddev: Math.sqrt(
+      scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) /
+        scores.length,
+    ),
+    runs: runs.map((run) => ({
+      score: run.score,
+      passed: run.success,
+      status: run.status,
+      executionTime: run.executionTime,
+      error: run.error,
+    })),
+  };
+
+  const summary = `Passed ${passedRuns} of ${runs.length} runs (pass policy: ${policy})`;
+  return {
+    ...representative,
+    testCaseId: testCase.id,
+    testCase,
+    success,
+    status: success
+      ? 'passed'
+      : runs.every((run) => run.status === 'timeout')
+        ? 'timeout'
+        : runs.every(
+              (run) => run.status === 'error' || run.status === 'timeout',
+            )
+          ? 'error'
+          : 'failed',
+    score: mean,
+    executionTime:
+      runs.reduce((sum, run) => sum + run.executionTime, 0) / runs.length,
+    error: success
+      ? undefined
+      : representative.error
+        ? `${summary}; ${representative.error}`
+        : summary,
+    runStatistics,
+  };
+}
@@ -0,0 +1,86 @@
+import { TestCase } from '../core/types/message.types.js';
+import { TestSelection } from './types/evaluation.types.js';
+
+/**
+ * Converts a glob pattern to a regular expression
+ *
+ * `**` matches any characters, `*` any characters except `/` and `?` a
+ * single character other than `/`.
+ *
+ * @param pattern The glob pattern
+ * @returns A regular expression that matches the whole text
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parses the regular expression used to select test cases by name
+ * @param pattern The regular expression source
+ * @returns The regular expression
+ * @throws Error if the pattern is not a valid regular expression
+ */
+export function parseGrep(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(
+      `Configuration error: \`--grep\` is not a valid regular expression: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
+/**
+ * Selects the test cases to run
+ *
+ * A test case is selected if it has one of the `tags` (if any), none of the
+ * `excludeTags`, an id that matches one of the `filter` globs (if any) and a
+ * name that matches `grep` (if set). Test cases marked `skip` are never
+ * selected, and if any selected test case is marked `only`, just the test
+ * cases marked `only` are.
+ *
+ * @param testCases The loaded test cases
+ * @param selection The selection criteria
+ * @returns The selected test cases, in order
+ * @throws Error if `grep` is not a valid regular expression
+ */
+export function selectTestCases(
+  testCases: TestCase[],
+  selection: TestSelection = {},
+): TestCase[] {
+  const filters = (selection.filter ?? []).map(globToRegExp);
+  const grep =
+    selection.grep === undefined ? undefined : parseGrep(selection.grep);
+  const hasTag = (testCase: TestCase, tags: string[]) =>
+    (testCase.tags ?? []).some((tag) => tags.includes(tag));
+
+  const selected = testCases.filter(
+    (testCase) =>
+      !testCase.skip &&
+      (!selection.tags?.length || hasTag(testCase, selection.tags)) &&
+      !hasTag(testCase, selection.excludeTags ?? []) &&
+      (filters.length === 0 ||
+        filters.some((filter) => filter.test(testCase.id))) &&
+      (!grep || grep.test(testCase.name)),
+  );
+
+  return selected.some((testCase) => testCase.only)
+    ? selected.filter((testCase) => testCase.only)
+    : selected;
+}
@@ -1,29 +1,150 @@
 import { z } from 'zod';
+import { GenerationSettingsSchema } from '../../config/types/config.types.js';
+
+/**
+ * Formats a report can be generated in
+ */
+export const ReportFormatSchema = z.enum([
+  'json',
+  'markdown',
+  'text',
+  'junit',
+  'html',
+]);
+
+export type ReportFormat = z.infer<typeof ReportFormatSchema>;
+
+/**
+ * Policy that decides whether a test case that runs several times passes:
+ * `all` runs, a `majority` of runs, any of the first k runs (`pass@k`) or a
+ * minimum ratio of passed runs (a number between 0 and 1)
+ */
+export const PassPolicySchema = z
+  .union([z.string(), z.number()])
+  .transform(String)
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^(all|majority|pass@[1-9]\d*|0(\.\d+)?|1(\.0+)?)$/,
+        'Pass policy must be all, majority, pass@k or a ratio between 0 and 1',
+      ),
+  );
+
+export type PassPolicy = z.infer<typeof PassPolicySchema>;
+
+/**
+ * Criteria for selecting the test cases to run
+ */
+export const TestSelectionSchema = z.object({
+  tags: z.array(z.string()).optional(),
+  excludeTags: z.array(z.string()).optional(),
+  filter: z.array(z.string()).optional(),
+  grep: z.string().optional(),
+});
+
+export type TestSelection = z.infer<typeof TestSelectionSchema>;
 
 /**
  * Configuration for scoring and report generation
  */
 export const EvaluationConfigSchema = z.object({
   threshold: z.number().min(0).max(1).default(0.8),
-  outputFormat: z.enum(['json', 'markdown', 'text']).default('markdown'),
+  outputFormat: ReportFormatSchema.default('markdown'),
   maxConcurrency: z.number().min(1).default(2),
+  providerConcurrency: z.record(z.string(), z.number().int().min(1)).optional(),
+  timeout: z.number().int().positive().optional(),
+  globalTimeout: z.number().int().positive().optional(),
+  scorer: z.string().optional(),
+  generation: GenerationSettingsSchema.optional(),
+  passPolicy: PassPolicySchema.optional(),
+  selection: TestSelectionSchema.optional(),
 });
 
 export type EvaluationConfig = z.infer<typeof EvaluationConfigSchema>;
 
+/**
+ * Outcome of a test case: it passed, it failed its checks, it could not be evaluated, or it ran out of time
+ */
+export const TestCaseStatusSchema = z.enum([
+  'passed',
+  'failed',
+  'error',
+  'timeout',
+]);
+
+export type TestCaseStatus = z.infer<typeof TestCaseStatusSchema>;
+
+/**
+ * Statistics of a test case that ran several times
+ */
+export const RunStatisticsSchema = z.object({
+  count: z.number().int().positive(),
+  passed: z.number().int().min(0),
+  passPolicy: z.string(),
+  mean: z.number(),
+  min: z.number(),
+  max: z.number(),
+  stddev: z.number(),
+  runs: z.array(
+    z.object({
+      score: z.number().min(0).max(1),
+      passed: z.boolean(),
+      status: TestCaseStatusSchema.optional(),
+      executionTime: z.number().optional(),
+      error: z.string().optional(),
+    }),
+  ),
+});
+
+export type RunStatistics = z.infer<typeof RunStatisticsSchema>;
+
+/**
+ * Represents the result of a single assertion declared by a test case
+ */
+export const AssertionResultSchema = z.object({
+  type: z.enum(['contains', 'not_contains', 'regex', 'json']),
+  value: z.string(),
+  passed: z.boolean(),
+  message: z.string().optional(),
+});
+
+/**
+ * Represents the result of checking a single expected tool call
+ */
+export const ToolCallResultSchema = z.object({
+  toolName: z.string(),
+  args: z.unknown(),
+  passed: z.boolean(),
+  message: z.string().optional(),
+});
+
 /**
  * Represents a single evaluation result
  */
 export const EvaluationResultSchema = z.object({
   testCase: z.object({
     id: z.string(),
+    file: z.string().optional(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
     input: z.string(),
     expected: z.string(),
+    answers: z.array(z.string()).optional(),
   }),
   score: z.number().min(0).max(1),
+  threshold: z.number().min(0).max(1).optional(),
   passed: z.boolean(),
+  status: TestCaseStatusSchema.optional(),
+  executionTime: z.number().optional(),
   error: z.string().optional(),
-  timestamp: z.date(),
+  rationale: z.string().optional(),
+  matchedAnswer: z.number().int().min(0).optional(),
+  assertions: z.array(AssertionResultSchema).optional(),
+  toolCalls: z.array(ToolCallResultSchema).optional(),
+  generation: GenerationSettingsSchema.optional(),
+  runs: RunStatisticsSchema.optional(),
+  timestamp: z.coerce.date(),
   response: z.string(),
 });
 
@@ -41,18 +162,52 @@ export const EvaluationReportSchema = z.object({
     z.object({
       testCase: z.object({
         id: z.string(),
+        file: z.string().optional(),
+        description: z.string().optional(),
+        tags: z.array(z.string()).optional(),
         input: z.string(),
         expected: z.string(),
+        answers: z.array(z.string()).optional(),
       }),
       score: z.number().min(0).max(1),
+      threshold: z.number().min(0).max(1).optional(),
       passed: z.boolean(),
+      status: TestCaseStatusSchema.optional(),
+      executionTime: z.number().optional(),
       error: z.string().optional(),
-      timestamp: z.date(),
+      rationale: z.string().optional(),
+      matchedAnswer: z.number().int().min(0).optional(),
+      assertions: z.array(AssertionResultSchema).optional(),
+      toolCalls: z.array(ToolCallResultSchema).optional(),
+      generation: GenerationSettingsSchema.optional(),
+      runs: RunStatisticsSchema.optional(),
+      timestamp: z.coerce.date(),
       response: z.string(),
     }),
   ),
-  timestamp: z.date(),
+  timestamp: z.coerce.date(),
   duration: z.number(),
+  incomplete: z.boolean().optional(),
 });
 
 export type EvaluationReport = z.infer<typeof EvaluationReportSchema>;
+
+/**
+ * Options that control a single evaluation run
+ */
+export interface EvaluationRunOptions {
+  /**
+   * Signal that stops starting new test cases, letting the running ones finish
+   */
+  stopSignal?: AbortSignal;
+
+  /**
+   * Signal that aborts the running test cases
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+   * Report of an earlier run whose results are kept, so their test cases are not run again
+   */
+  previousReport?: EvaluationReport;
+}
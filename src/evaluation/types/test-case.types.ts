@@ -1,5 +1,10 @@
 import { BaseMessage } from '../../core/types/message.types.js';
+import { AssertionResult } from '../../scoring/assertions.js';
+import { ToolCallResult } from '../../scoring/tool-calls.js';
+import { AgentToolCall } from '../../agents/types/agent.types.js';
 import { TestCase as CoreTestCase } from '../../core/types/message.types.js';
+import { GenerationSettings } from '../../config/types/config.types.js';
+import { RunStatistics, TestCaseStatus } from './evaluation.types.js';
 
 /**
  * Represents a test case for agent evaluation.
@@ -61,6 +66,11 @@ export interface TestCaseEvaluation {
    */
   success: boolean;
 
+  /**
+   * Whether the test case passed, failed its checks or could not be evaluated.
+   */
+  status: TestCaseStatus;
+
   /**
    * Error message if the test case failed.
    */
@@ -81,6 +91,42 @@ export interface TestCaseEvaluation {
    */
   response?: string;
 
+  /**
+   * Explanation of the score, provided by scorers such as the LLM judge.
+   */
+  rationale?: string;
+
+  /**
+   * Index of the expected answer that scored best: 0 for the final assistant
+   * message, 1 and up for the alternatives. Only set when the test case has alternatives.
+   */
+  matchedAnswer?: number;
+
+  /**
+   * Results of the assertions declared by the test case, in order.
+   */
+  assertionResults?: AssertionResult[];
+
+  /**
+   * Tool calls made by the agent, in order.
+   */
+  toolCalls?: AgentToolCall[];
+
+  /**
+   * Results of checking the expected tool calls, in order.
+   */
+  toolCallResults?: ToolCallResult[];
+
+  /**
+   * Generation settings the agent used for the response.
+   */
+  generation?: GenerationSettings;
+
+  /**
+   * Statistics over the runs, for test cases that ran several times.
+   */
+  runStatistics?: RunStatistics;
+
   /**
    * The original test case that was evaluated.
    */
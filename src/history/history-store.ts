@@ -0,0 +1,81 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { HistoryEntry, HistoryEntrySchema } from './types/history.types.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Directory the run history is stored in by default
+ */
+export const DEFAULT_HISTORY_DIRECTORY = '.hebo-evals/history';
+
+/**
+ * Stores evaluation runs as JSON files in a local directory
+ */
+export class HistoryStore {
+  /**
+   * @param directory The history directory
+   */
+  constructor(private readonly directory: string = DEFAULT_HISTORY_DIRECTORY) {}
+
+  /**
+   * Appends a run to the history
+   * @param entry The run, without an id
+   * @returns Promise that resolves with the stored entry
+   * @throws Error if the history file cannot be written
+   */
+  async append(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+    // Ids start with the timestamp, so history files sort chronologically
+    const id = `${entry.timestamp.toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`;
+    const stored: HistoryEntry = { id, ...entry };
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(
+        join(this.directory, `${id}.json`),
+        JSON.stringify(stored, null, 2) + '\n',
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to write run history to ${this.directory}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+    return stored;
+  }
+
+  /**
+   * Loads all runs in the history
+   *
+   * Files that cannot be read or are not valid runs are skipped with a warning.
+   *
+   * @returns Promise that resolves with the runs, oldest first
+   */
+  async load(): Promise<HistoryEntry[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      try {
+        const content = await readFile(join(this.directory, file), 'utf-8');
+        entries.push(HistoryEntrySchema.parse(JSON.parse(content)));
+      } catch (error) {
+        Logger.warn(
+          `Skipping invalid history file ${file}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        );
+      }
+    }
+
+    return entries.sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+    );
+  }
+}
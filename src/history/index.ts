@@ -0,0 +1,8 @@
+/**
+ * Local run history and trend reporting for Hebo Eval
+ * @module history
+ */
+
+export * from './types/history.types';
+export * from './history-store';
+export * from './trends';
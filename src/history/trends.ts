@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FlakyTest, HistoryEntry, TrendPoint } from './types/history.types.js';
+import { COLORS } from '../utils/logger.js';
+
+/**
+ * Gets the git commit checked out in a directory
+ * @param directory The directory to look in
+ * @returns Promise that resolves with the commit hash, or undefined if the directory is not in a git repository
+ */
+export async function getGitCommit(
+  directory: string = process.cwd(),
+): Promise<string | undefined> {
+  try {
+    const { stdout } = await promisify(execFile)('git', ['rev-parse', 'HEAD'], {
+      cwd: directory,
+    });
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hashes a configuration value, independent of the order of object keys
+ * @param value The value to hash
+ * @returns The first 16 hex characters of the SHA-256 hash
+ */
+export function hashConfig(value: unknown): string {
+  const normalize = (item: unknown): unknown =>
+    Array.isArray(item)
+      ? item.map(normalize)
+      : item && typeof item === 'object'
+        ? Object.fromEntries(
+            Object.entries(item)
+              .filter(([, entry]) => entry !== undefined)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([key, entry]) => [key, normalize(entry)]),
+          )
+        : item;
+
+  return createHash('sha256')
+    .update(JSON.stringify(normalize(value)))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Computes the pass rate and mean score of each run
+ * @param entries The runs, oldest first
+ * @param testId Only use the results of this test when given
+ * @returns One point per run that has matching results
+ */
+export function computeTrend(
+  entries: HistoryEntry[],
+  testId?: string,
+): TrendPoint[] {
+  return entries.flatMap((entry) => {
+    const results = entry.report.results.filter(
+      (result) => testId === undefined || result.testCase.id === testId,
+    );
+    if (results.length === 0) {
+      return [];
+    }
+    return [
+      {
+        runId: entry.id,
+        timestamp: entry.timestamp,
+        model: entry.model,
+        commit: entry.commit,
+        total: results.length,
+        passRate:
+          results.filter((result) => result.passed).length / results.length,
+        meanScore:
+          results.reduce((sum, result) => sum + result.score, 0) /
+          results.length,
+      },
+    ];
+  });
+}
+
+/**
+ * Finds tests whose outcome changed at least twice across runs
+ *
+ * A test that changed once was fixed or broken; a test that keeps changing is flaky.
+ *
+ * @param entries The runs, oldest first
+ * @returns The flaky tests, most flips first
+ */
+export function findFlakyTests(entries: HistoryEntry[]): FlakyTest[] {
+  const outcomes = new Map<string, boolean[]>();
+  for (const entry of entries) {
+    for (const result of entry.report.results) {
+      const id = result.testCase.id;
+      outcomes.set(id, [...(outcomes.get(id) ?? []), result.passed]);
+    }
+  }
+
+  const flakyTests: FlakyTest[] = [];
+  for (const [id, passes] of outcomes) {
+    const flips = passes.filter(
+      (passed, index) => index > 0 && passed !== passes[index - 1],
+    ).length;
+    if (flips >= 2) {
+      flakyTests.push({
+        id,
+        runs: passes.length,
+        passed: passes.filter(Boolean).length,
+        flips,
+      });
+    }
+  }
+
+  return flakyTests.sort((a, b) => b.flips - a.flips);
+}
+
+/**
+ * Formats a trend and the flaky tests for the terminal
+ * @param trend The trend points, oldest first
+ * @param flakyTests The flaky tests
+ * @returns The formatted trend
+ */
+export function formatTrend(
+  trend: TrendPoint[],
+  flakyTests: FlakyTest[],
+): string {
+  const lines = [
+    [
+      'Finished'.padEnd(24),
+      'Model'.padEnd(25),
+      'Commit'.padEnd(8),
+      'Tests'.padStart(5),
+      'Pass Rate'.padStart(10),
+      'Mean Score'.padStart(11),
+    ].join(' '),
+  ];
+  let previous: TrendPoint | undefined;
+  for (const point of trend) {
+    const change =
+      previous === undefined || point.passRate === previous.passRate
+        ? ''
+        : point.passRate > previous.passRate
+          ? ` ${COLORS.test.pass}▲${COLORS.reset}`
+          : ` ${COLORS.test.fail}▼${COLORS.reset}`;
+    lines.push(
+      [
+        point.timestamp.toISOString().padEnd(24),
+        point.model.padEnd(25),
+        (point.commit?.slice(0, 7) ?? '-').padEnd(8),
+        String(point.total).padStart(5),
+        `${(point.passRate * 100).toFixed(1)}%`.padStart(10),
+        point.meanScore.toFixed(3).padStart(11),
+      ].join(' ') + change,
+    );
+    previous = point;
+  }
+
+  if (flakyTests.length > 0) {
+    lines.push('', `${COLORS.test.skip}Flaky Tests${COLORS.reset}`);
+    for (const test of flakyTests) {
+      lines.push(
+        `  ${test.id}: passed ${test.passed}/${test.runs} runs, changed ${test.flips} times`,
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { EvaluationReportSchema } from '../../evaluation/types/evaluation.types.js';
+
+/**
+ * A run stored in the local history
+ */
+export const HistoryEntrySchema = z.object({
+  /**
+   * Unique id of the run, also the name of its history file
+   */
+  id: z.string(),
+
+  /**
+   * When the run finished
+   */
+  timestamp: z.coerce.date(),
+
+  /**
+   * The evaluated model
+   */
+  model: z.string(),
+
+  /**
+   * The provider the model was called through
+   */
+  provider: z.string(),
+
+  /**
+   * The git commit checked out in the working directory, if any
+   */
+  commit: z.string().optional(),
+
+  /**
+   * Hash of the settings that affect the results, to tell apart runs with different configurations
+   */
+  configHash: z.string(),
+
+  /**
+   * The full evaluation report
+   */
+  report: EvaluationReportSchema,
+});
+
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+/**
+ * Pass rate and mean score of a run, for the whole suite or a single test
+ */
+export interface TrendPoint {
+  /**
+   * Id of the run
+   */
+  runId: string;
+
+  /**
+   * When the run finished
+   */
+  timestamp: Date;
+
+  /**
+   * The evaluated model
+   */
+  model: string;
+
+  /**
+   * The git commit of the run, if any
+   */
+  commit?: string;
+
+  /**
+   * Number of results the point is based on
+   */
+  total: number;
+
+  /**
+   * Fraction of passed results
+   */
+  passRate: number;
+
+  /**
+   * Mean score of the results
+   */
+  meanScore: number;
+}
+
+/**
+ * A test whose outcome keeps changing between runs
+ */
+export interface FlakyTest {
+  /**
+   * The test case id
+   */
+  id: string;
+
+  /**
+   * Number of runs the test was part of
+   */
+  runs: number;
+
+  /**
+   * Number of runs the test passed in
+   */
+  passed: number;
+
+  /**
+   * Number of times the outcome changed from one run to the next
+   */
+  flips: number;
+}
@@ -1,7 +1,9 @@
-import { readFile, readdir } from 'fs/promises';
-import { join, extname, basename, relative, dirname } from 'path';
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, extname, basename, relative, dirname, resolve } from 'path';
 import { Parser } from './parser.js';
 import { TestCase } from '../core/types/message.types.js';
+import { loadToolFixtures } from '../tools/fixtures.js';
+import { ToolDefinitions } from '../tools/types/tool.types.js';
 
 /**
  * Result of loading test cases
@@ -34,6 +36,7 @@ export interface LoadResult {
 export class TestCaseLoader {
   private parser: Parser;
   private rootDirectory: string;
+  private fixtures = new Map<string, Promise<ToolDefinitions>>();
 
   constructor(rootDirectory: string = process.cwd()) {
     this.parser = new Parser();
@@ -49,38 +52,68 @@ export class TestCaseLoader {
   public async loadFromDirectory(
     directoryPath: string,
     stopOnError: boolean = true,
+  ): Promise<LoadResult> {
+    return this.loadFromPaths([directoryPath], stopOnError);
+  }
+
+  /**
+   * Loads test cases from files and directories
+   *
+   * Directories are searched recursively for test files. A file that is
+   * reached through several paths is only loaded once.
+   *
+   * @param paths The paths of test case files and directories
+   * @param stopOnError Whether to stop processing files after the first error (default: true)
+   * @returns Promise that resolves with the load result
+   */
+  public async loadFromPaths(
+    paths: string[],
+    stopOnError: boolean = true,
   ): Promise<LoadResult> {
     const result: LoadResult = {
       testCases: [],
       errors: [],
     };
 
-    try {
-      const files = await this.getTestFiles(directoryPath);
-
-      for (const file of files) {
-        try {
-          const testCases = await this.loadFile(file);
-          result.testCases.push(...testCases);
-        } catch (error) {
-          result.errors.push({
-            filePath: file,
-            message:
-              error instanceof Error ? error.message : 'Unknown error occurred',
-          });
-          if (stopOnError) {
-            return result;
+    const files = new Map<string, string>();
+    for (const path of paths) {
+      try {
+        const pathFiles = (await stat(path)).isDirectory()
+          ? await this.getTestFiles(path)
+          : [path];
+        for (const file of pathFiles) {
+          if (!files.has(resolve(file))) {
+            files.set(resolve(file), file);
           }
-          // Continue processing remaining files if stopOnError is false
+        }
+      } catch (error) {
+        // If we can't read the path, add it as an error
+        result.errors.push({
+          filePath: path,
+          message:
+            error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+        if (stopOnError) {
+          return result;
         }
       }
-    } catch (error) {
-      // If we can't read the directory, add it as an error
-      result.errors.push({
-        filePath: directoryPath,
-        message:
-          error instanceof Error ? error.message : 'Unknown error occurred',
-      });
+    }
+
+    for (const file of files.values()) {
+      try {
+        const testCases = await this.loadFile(file);
+        result.testCases.push(...testCases);
+      } catch (error) {
+        result.errors.push({
+          filePath: file,
+          message:
+            error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+        if (stopOnError) {
+          return result;
+        }
+        // Continue processing remaining files if stopOnError is false
+      }
     }
 
     return result;
@@ -130,12 +163,47 @@ export class TestCaseLoader {
     const content = await readFile(filePath, 'utf-8');
     const { baseName, hierarchicalId } = this.getTestCaseInfo(filePath);
     // If the file contains a '# ' header, treat as multiple test cases; otherwise, treat as a single test case with the filename as the name
-    if (/^# /m.test(content)) {
-      return this.parser.parseMultiple(content, baseName, hierarchicalId);
-    } else {
-      // Single test case: use the filename as the name
-      return [this.parser.parse(content, baseName, hierarchicalId)];
+    const testCases = /^# /m.test(content)
+      ? this.parser.parseMultiple(content, baseName, hierarchicalId)
+      : // Single test case: use the filename as the name
+        [this.parser.parse(content, baseName, hierarchicalId)];
+
+    const file = relative(this.rootDirectory, filePath);
+    for (const testCase of testCases) {
+      testCase.file = file;
+      await this.resolveFixtures(testCase, dirname(filePath));
+    }
+    return testCases;
+  }
+
+  /**
+   * Adds the tools of the shared fixtures files of a test case to its tools
+   *
+   * Tools declared in the test file take precedence over fixtures tools with the same name.
+   *
+   * @param testCase The test case with fixtures paths
+   * @param directory The directory the fixtures paths are relative to
+   * @throws Error if a fixtures file cannot be loaded
+   */
+  private async resolveFixtures(
+    testCase: TestCase,
+    directory: string,
+  ): Promise<void> {
+    if (!testCase.fixtures?.length) {
+      return;
+    }
+
+    let tools: ToolDefinitions = {};
+    for (const fixturesPath of testCase.fixtures) {
+      const fullPath = join(directory, fixturesPath);
+      let fixtures = this.fixtures.get(fullPath);
+      if (!fixtures) {
+        fixtures = loadToolFixtures(fullPath);
+        this.fixtures.set(fullPath, fixtures);
+      }
+      tools = { ...tools, ...(await fixtures) };
     }
+    testCase.tools = { ...tools, ...testCase.tools };
   }
 
   /**
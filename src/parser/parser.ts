@@ -1,10 +1,123 @@
-import { TestCaseParser } from './tokenizer.js';
-import { MessageRole, TestCase } from '../core/types/message.types.js';
+import { TestCaseElement, TestCaseParser } from './tokenizer.js';
+import {
+  Assertion,
+  MessageRole,
+  TestCase,
+} from '../core/types/message.types.js';
 import { roleMapper } from '../core/utils/role-mapper.js';
 import { ParseError } from './errors.js';
-import type { CoreMessage } from 'ai';
+import {
+  ToolDefinitions,
+  ToolDefinitionsSchema,
+} from '../tools/types/tool.types.js';
+import {
+  GenerationSettings,
+  GenerationSettingsSchema,
+} from '../config/types/config.types.js';
+import { mergeGenerationSettings } from '../config/utils/generation-settings.js';
+import { PassPolicySchema } from '../evaluation/types/evaluation.types.js';
+import type { CoreMessage, ToolCallPart, ToolResultPart } from 'ai';
 import yaml from 'js-yaml';
 
+/**
+ * Matches a YAML metadata block between --- markers at the start of the text
+ */
+const METADATA_BLOCK_PATTERN = /^---\s*\n([\s\S]*?)\n---\s*(?:\n|$)/;
+
+/**
+ * Maps assertion element types from the tokenizer to assertion types
+ */
+const ASSERTION_TYPES: Partial<
+  Record<TestCaseElement['type'], Assertion['type']>
+> = {
+  expect_contains: 'contains',
+  expect_not_contains: 'not_contains',
+  expect_regex: 'regex',
+  expect_json: 'json',
+};
+
+/**
+ * Tool call whose arguments are still being read
+ */
+interface PendingToolCall {
+  toolCallId: string;
+  toolName: string;
+  args?: string[];
+}
+
+/**
+ * Tool result whose value is still being read
+ */
+interface PendingToolResult {
+  toolCall: PendingToolCall;
+  result: string[];
+}
+
+/**
+ * Metadata that can be set for a whole file or for a single test case
+ */
+interface TestCaseMetadata {
+  /**
+   * Longer description of what the test case checks
+   */
+  description?: string;
+
+  /**
+   * Tags used to select test cases
+   */
+  tags?: string[];
+
+  /**
+   * Minimum score for a test case to pass
+   */
+  threshold?: number;
+
+  /**
+   * Whether to skip the test cases
+   */
+  skip?: boolean;
+
+  /**
+   * Whether to run only these test cases
+   */
+  only?: boolean;
+
+  /**
+   * Maximum time in milliseconds to wait for the agent response
+   */
+  timeout?: number;
+
+  /**
+   * Number of times to run each test case
+   */
+  runs?: number;
+
+  /**
+   * Policy that decides whether a test case that runs several times passes
+   */
+  passPolicy?: string;
+
+  /**
+   * Name of the scorer used to score the test cases
+   */
+  scorer?: string;
+
+  /**
+   * Tools the agent can call, with canned responses
+   */
+  tools?: ToolDefinitions;
+
+  /**
+   * Paths of shared tool fixtures files
+   */
+  fixtures?: string[];
+
+  /**
+   * Generation settings for the agent calls
+   */
+  generation?: GenerationSettings;
+}
+
 /**
  * Parser for test case text files
  */
@@ -29,35 +142,11 @@ export class Parser {
     hierarchicalId: string,
   ): TestCase[] {
     // Extract global metadata block (YAML between --- ... --- at the top)
-    let runs: number | undefined = undefined;
+    let fileMetadata: TestCaseMetadata = {};
     let testCaseText = text;
-    const metadataMatch = text.match(/^---\s*\n([\s\S]*?)\n---\s*\n?/);
+    const metadataMatch = text.match(METADATA_BLOCK_PATTERN);
     if (metadataMatch) {
-      try {
-        const metadata = yaml.load(metadataMatch[1]);
-        let parsedRuns: number | undefined = undefined;
-        if (metadata && typeof metadata === 'object' && 'runs' in metadata) {
-          const rawRuns = (metadata as Record<string, unknown>).runs;
-          if (typeof rawRuns === 'number') {
-            parsedRuns = rawRuns;
-          } else if (typeof rawRuns === 'string' && !isNaN(Number(rawRuns))) {
-            parsedRuns = Number(rawRuns);
-          }
-          if (parsedRuns !== undefined) {
-            if (!Number.isInteger(parsedRuns) || parsedRuns <= 0) {
-              throw new ParseError(
-                `Invalid runs value (${String(rawRuns)}) in metadata. Runs must be a positive integer.`,
-              );
-            }
-            runs = parsedRuns;
-          }
-        }
-      } catch (e) {
-        throw new ParseError(
-          'Failed to parse metadata block: ' +
-            (e instanceof Error ? e.message : String(e)),
-        );
-      }
+      fileMetadata = this.parseMetadata(metadataMatch[1]);
       // Remove metadata block from text
       testCaseText = text.slice(metadataMatch[0].length);
     }
@@ -89,18 +178,233 @@ export class Parser {
       if (bodyLines.length > 0 && bodyLines[0].trim() === '') {
         bodyLines = bodyLines.slice(1);
       }
-      const body = bodyLines.join('\n').trim();
+      let body = bodyLines.join('\n').trim();
+      // Extract the test case metadata block (YAML between --- ... --- after the title)
+      let sectionMetadata: TestCaseMetadata = {};
+      const sectionMetadataMatch = body.match(METADATA_BLOCK_PATTERN);
+      if (sectionMetadataMatch) {
+        sectionMetadata = this.parseMetadata(sectionMetadataMatch[1]);
+        body = body.slice(sectionMetadataMatch[0].length).trim();
+      }
       const fullId = `${hierarchicalId}/${title}`;
       // Parse the test case body
       const testCase = this.parse(body, title, fullId);
-      // Attach global runs property if present
-      if (runs !== undefined) {
-        testCase.runs = runs;
+      // Attach metadata, test case values take precedence over file values
+      const metadata = { ...fileMetadata, ...sectionMetadata };
+      if (sectionMetadata.description !== undefined) {
+        testCase.description = sectionMetadata.description;
+      }
+      if (metadata.threshold !== undefined) {
+        testCase.threshold = metadata.threshold;
+      }
+      if (metadata.skip !== undefined) {
+        testCase.skip = metadata.skip;
+      }
+      if (metadata.only !== undefined) {
+        testCase.only = metadata.only;
+      }
+      if (metadata.timeout !== undefined) {
+        testCase.timeout = metadata.timeout;
+      }
+      if (metadata.runs !== undefined) {
+        testCase.runs = metadata.runs;
+      }
+      if (metadata.passPolicy !== undefined) {
+        testCase.passPolicy = metadata.passPolicy;
+      }
+      if (metadata.scorer !== undefined) {
+        testCase.scorer = metadata.scorer;
+      }
+      // Tags, tools and fixtures are combined, test case tools replace file tools with the same name
+      if (fileMetadata.tags || sectionMetadata.tags) {
+        testCase.tags = Array.from(
+          new Set([
+            ...(fileMetadata.tags ?? []),
+            ...(sectionMetadata.tags ?? []),
+          ]),
+        );
+      }
+      if (fileMetadata.tools || sectionMetadata.tools) {
+        testCase.tools = { ...fileMetadata.tools, ...sectionMetadata.tools };
+      }
+      if (fileMetadata.fixtures || sectionMetadata.fixtures) {
+        testCase.fixtures = [
+          ...(fileMetadata.fixtures ?? []),
+          ...(sectionMetadata.fixtures ?? []),
+        ];
+      }
+      if (fileMetadata.generation || sectionMetadata.generation) {
+        testCase.generation = mergeGenerationSettings(
+          fileMetadata.generation,
+          sectionMetadata.generation,
+        );
       }
       return testCase;
     });
   }
 
+  /**
+   * Parses a YAML metadata block
+   * @param source The YAML source between the --- markers
+   * @returns The parsed metadata
+   * @throws ParseError if the YAML is invalid or contains invalid values
+   */
+  private parseMetadata(source: string): TestCaseMetadata {
+    let metadata: unknown;
+    try {
+      metadata = yaml.load(source);
+    } catch (e) {
+      throw new ParseError(
+        'Failed to parse metadata block: ' +
+          (e instanceof Error ? e.message : String(e)),
+      );
+    }
+
+    const result: TestCaseMetadata = {};
+    if (!metadata || typeof metadata !== 'object') {
+      return result;
+    }
+    const values = metadata as Record<string, unknown>;
+
+    if ('description' in values) {
+      const description = values.description;
+      if (typeof description !== 'string') {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid description value (${String(description)}) in metadata. Description must be a string.`,
+        );
+      }
+      result.description = description.trim();
+    }
+
+    if ('tags' in values) {
+      const tags = values.tags;
+      const list = typeof tags === 'string' ? [tags] : tags;
+      if (
+        !Array.isArray(list) ||
+        !list.every((tag) => typeof tag === 'string' && tag.trim() !== '')
+      ) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid tags value (${String(tags)}) in metadata. Tags must be a tag or a list of tags.`,
+        );
+      }
+      result.tags = (list as string[]).map((tag) => tag.trim());
+    }
+
+    if ('threshold' in values) {
+      const threshold = values.threshold;
+      if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid threshold value (${String(threshold)}) in metadata. Threshold must be a number between 0 and 1.`,
+        );
+      }
+      result.threshold = threshold;
+    }
+
+    for (const key of ['skip', 'only'] as const) {
+      if (key in values) {
+        const value = values[key];
+        if (typeof value !== 'boolean') {
+          throw new ParseError(
+            `Failed to parse metadata block: Invalid ${key} value (${String(value)}) in metadata. ${key === 'skip' ? 'Skip' : 'Only'} must be true or false.`,
+          );
+        }
+        result[key] = value;
+      }
+    }
+
+    if ('timeout' in values) {
+      const timeout = values.timeout;
+      if (
+        typeof timeout !== 'number' ||
+        !Number.isInteger(timeout) ||
+        timeout <= 0
+      ) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid timeout value (${String(timeout)}) in metadata. Timeout must be a positive integer number of milliseconds.`,
+        );
+      }
+      result.timeout = timeout;
+    }
+
+    if ('runs' in values) {
+      const rawRuns = values.runs;
+      let parsedRuns: number | undefined = undefined;
+      if (typeof rawRuns === 'number') {
+        parsedRuns = rawRuns;
+      } else if (typeof rawRuns === 'string' && !isNaN(Number(rawRuns))) {
+        parsedRuns = Number(rawRuns);
+      }
+      if (parsedRuns !== undefined) {
+        if (!Number.isInteger(parsedRuns) || parsedRuns <= 0) {
+          throw new ParseError(
+            `Failed to parse metadata block: Invalid runs value (${String(rawRuns)}) in metadata. Runs must be a positive integer.`,
+          );
+        }
+        result.runs = parsedRuns;
+      }
+    }
+
+    if ('passPolicy' in values) {
+      const passPolicy = PassPolicySchema.safeParse(values.passPolicy);
+      if (!passPolicy.success) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid passPolicy value (${String(values.passPolicy)}) in metadata. ${passPolicy.error.issues[0].message}.`,
+        );
+      }
+      result.passPolicy = passPolicy.data;
+    }
+
+    if ('scorer' in values) {
+      const scorer = values.scorer;
+      if (typeof scorer !== 'string' || scorer.trim() === '') {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid scorer value (${String(scorer)}) in metadata. Scorer must be a non-empty string.`,
+        );
+      }
+      result.scorer = scorer.trim();
+    }
+
+    if ('tools' in values) {
+      const tools = ToolDefinitionsSchema.safeParse(values.tools);
+      if (!tools.success) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid tools value in metadata. ${tools.error.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join(', ')}`,
+        );
+      }
+      result.tools = tools.data;
+    }
+
+    if ('fixtures' in values) {
+      const fixtures = values.fixtures;
+      const paths = typeof fixtures === 'string' ? [fixtures] : fixtures;
+      if (
+        !Array.isArray(paths) ||
+        !paths.every((path) => typeof path === 'string' && path.trim() !== '')
+      ) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid fixtures value (${String(fixtures)}) in metadata. Fixtures must be a path or a list of paths.`,
+        );
+      }
+      result.fixtures = (paths as string[]).map((path) => path.trim());
+    }
+
+    if ('generation' in values) {
+      const generation = GenerationSettingsSchema.safeParse(values.generation);
+      if (!generation.success) {
+        throw new ParseError(
+          `Failed to parse metadata block: Invalid generation value in metadata. ${generation.error.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join(', ')}`,
+        );
+      }
+      result.generation = generation.data;
+    }
+
+    return result;
+  }
+
   /**
    * Parses a test case from text
    * @param text The text to parse
@@ -123,34 +427,60 @@ export class Parser {
     const messageBlocks: CoreMessage[] = [];
     let currentRole: MessageRole | null = null;
     let currentContent: string[] = [];
-    let toolUsageLines: string[] = [];
-    let toolResponseLines: string[] = [];
+    let toolCalls: PendingToolCall[] = [];
+    let toolResults: PendingToolResult[] = [];
+    let unansweredCalls: PendingToolCall[] = [];
+    let toolElement: 'tool_use' | 'args' | 'tool_response' | null = null;
+    let toolCallCount = 0;
+    const alternatives: string[] = [];
+    const assertions: Assertion[] = [];
+
+    // Saves the current message block, if any, and starts a new one
+    const startBlock = (role: MessageRole | null): void => {
+      if (currentRole !== null) {
+        messageBlocks.push(
+          this.createCoreMessage(
+            currentRole,
+            currentContent.join('\n'),
+            toolCalls,
+            toolResults,
+          ),
+        );
+      }
+      currentRole = role;
+      currentContent = [];
+      toolCalls = [];
+      toolResults = [];
+      toolElement = null;
+    };
 
     for (let i = 0; i < elements.length; i++) {
       const element = elements[i];
 
+      // Assertions close the conversation, only their continuation lines may follow
+      if (assertions.length > 0 && element.type !== 'content') {
+        if (!ASSERTION_TYPES[element.type]) {
+          throw new ParseError(
+            'Assertions must appear after the final assistant message',
+          );
+        }
+      }
+
+      // Alternative answers close the conversation, only assertions may follow
+      if (
+        alternatives.length > 0 &&
+        element.type !== 'content' &&
+        element.type !== 'alternative' &&
+        !ASSERTION_TYPES[element.type]
+      ) {
+        throw new ParseError(
+          'Alternative answers must appear after the final assistant message',
+        );
+      }
+
       switch (element.type) {
         case 'role': {
-          // Save previous block if exists
-          if (currentRole !== null) {
-            let content = currentContent.join('\n');
-
-            // Append tool usage and response information to content for formatting
-            if (toolUsageLines.length > 0) {
-              content += '\n' + toolUsageLines.join('\n');
-            }
-            if (toolResponseLines.length > 0) {
-              content += '\n' + toolResponseLines.join('\n');
-            }
-
-            messageBlocks.push(this.createCoreMessage(currentRole, content));
-            currentContent = [];
-            toolUsageLines = [];
-            toolResponseLines = [];
-          }
-
-          // Start new block
-          currentRole = this.parseRole(element.value);
+          startBlock(this.parseRole(element.value));
           break;
         }
 
@@ -158,6 +488,33 @@ export class Parser {
           if (currentRole === null) {
             throw new ParseError('Content found without a role');
           }
+          // Lines after an assertion marker continue the assertion value (e.g. a multi-line JSON Schema)
+          if (assertions.length > 0) {
+            const assertion = assertions[assertions.length - 1];
+            assertion.value = [assertion.value, element.value]
+              .join('\n')
+              .trim();
+            break;
+          }
+          // Lines after an alternative marker continue the alternative answer
+          if (alternatives.length > 0) {
+            alternatives[alternatives.length - 1] += '\n' + element.value;
+            break;
+          }
+          // Lines after args or a tool response continue their value (e.g. multi-line JSON)
+          if (toolElement === 'args') {
+            toolCalls[toolCalls.length - 1].args?.push(element.value);
+            break;
+          }
+          if (toolElement === 'tool_response') {
+            toolResults[toolResults.length - 1].result.push(element.value);
+            break;
+          }
+          if (toolElement === 'tool_use') {
+            throw new ParseError(
+              'Tool use must be followed by args, a tool response or a role marker',
+            );
+          }
           // Merge all content for the current role, preserving blank lines and Markdown
           currentContent.push(element.value);
           break;
@@ -167,9 +524,36 @@ export class Parser {
           if (currentRole === null) {
             throw new ParseError('Tool use found without a role');
           }
+          if (element.value === '') {
+            throw new ParseError('Tool use requires a tool name');
+          }
 
-          // Store tool usage as a line for later inclusion in content
-          toolUsageLines.push(`tool use: ${element.value}`);
+          // Tool calls are made by the assistant, start a new assistant message if needed
+          if (currentRole !== MessageRole.ASSISTANT) {
+            startBlock(MessageRole.ASSISTANT);
+          }
+          if (toolCalls.length === 0) {
+            unansweredCalls = [];
+          }
+
+          const toolCall: PendingToolCall = {
+            toolCallId: `call_${++toolCallCount}`,
+            toolName: element.value,
+          };
+          toolCalls.push(toolCall);
+          unansweredCalls.push(toolCall);
+          toolElement = 'tool_use';
+          break;
+        }
+
+        case 'args': {
+          const toolCall = toolCalls[toolCalls.length - 1];
+          if (toolElement !== 'tool_use' || !toolCall) {
+            throw new ParseError('Args must directly follow a tool use');
+          }
+
+          toolCall.args = [element.value];
+          toolElement = 'args';
           break;
         }
 
@@ -178,45 +562,126 @@ export class Parser {
             throw new ParseError('Tool response found without a role');
           }
 
-          // Store tool response as a line for later inclusion in content
-          toolResponseLines.push(`tool response: ${element.value}`);
+          // Tool results are sent in their own tool message after the tool calls
+          if (currentRole !== MessageRole.TOOL) {
+            startBlock(MessageRole.TOOL);
+          }
+          const toolCall = unansweredCalls.shift();
+          if (!toolCall) {
+            throw new ParseError(
+              'Tool response found without a matching tool use',
+            );
+          }
+
+          toolResults.push({ toolCall, result: [element.value] });
+          toolElement = 'tool_response';
           break;
         }
-      }
-    }
 
-    // Add the last block if exists
-    if (currentRole !== null) {
-      let content = '';
-      if (currentContent.length > 0) {
-        content = currentContent.join('\n');
-      }
+        case 'alternative': {
+          if (currentRole !== MessageRole.ASSISTANT) {
+            throw new ParseError(
+              'Alternative answers must appear after the final assistant message',
+            );
+          }
+          alternatives.push(element.value);
+          break;
+        }
 
-      // Append tool usage and response information to content for formatting
-      if (toolUsageLines.length > 0) {
-        content += '\n' + toolUsageLines.join('\n');
-      }
-      if (toolResponseLines.length > 0) {
-        content += '\n' + toolResponseLines.join('\n');
+        case 'expect_contains':
+        case 'expect_not_contains':
+        case 'expect_regex':
+        case 'expect_json': {
+          if (currentRole !== MessageRole.ASSISTANT) {
+            throw new ParseError(
+              'Assertions must appear after the final assistant message',
+            );
+          }
+          const type = ASSERTION_TYPES[element.type] as Assertion['type'];
+          if (element.value === '' && type !== 'json') {
+            throw new ParseError(
+              `Assertion "${element.type.replace(/_/g, ' ')}" requires a value`,
+            );
+          }
+          assertions.push({ type, value: element.value });
+          break;
+        }
       }
-
-      messageBlocks.push(this.createCoreMessage(currentRole, content));
     }
 
+    // Add the last block if exists
+    startBlock(null);
+
     // Validate the test case structure
     this.validateTestCase(messageBlocks);
 
-    return {
+    const testCase: TestCase = {
       id,
       name,
       messageBlocks,
     };
+    if (alternatives.length > 0) {
+      testCase.alternatives = alternatives.map((alternative) => {
+        if (alternative.trim() === '') {
+          throw new ParseError('Alternative answers must not be empty');
+        }
+        return alternative.trim();
+      });
+    }
+    if (assertions.length > 0) {
+      testCase.assertions = assertions;
+    }
+    return testCase;
   }
 
   /**
    * Creates a CoreMessage based on the role
+   * @param role The role of the message
+   * @param content The text content of the message
+   * @param toolCalls Tool calls made in an assistant message
+   * @param toolResults Tool results sent in a tool message
+   * @returns The message, using content parts when tools are involved
+   * @throws ParseError if tool arguments are not a valid JSON object
    */
-  private createCoreMessage(role: MessageRole, content: string): CoreMessage {
+  private createCoreMessage(
+    role: MessageRole,
+    content: string,
+    toolCalls: PendingToolCall[] = [],
+    toolResults: PendingToolResult[] = [],
+  ): CoreMessage {
+    if (role === MessageRole.TOOL) {
+      return {
+        role: 'tool',
+        content: toolResults.map(
+          ({ toolCall, result }): ToolResultPart => ({
+            type: 'tool-result',
+            toolCallId: toolCall.toolCallId,
+            toolName: toolCall.toolName,
+            result: this.parseToolResult(result.join('\n')),
+          }),
+        ),
+      };
+    }
+
+    if (toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: [
+          ...(content.trim() === ''
+            ? []
+            : [{ type: 'text' as const, text: content }]),
+          ...toolCalls.map(
+            (toolCall): ToolCallPart => ({
+              type: 'tool-call',
+              toolCallId: toolCall.toolCallId,
+              toolName: toolCall.toolName,
+              args: this.parseToolArgs(toolCall),
+            }),
+          ),
+        ],
+      };
+    }
+
     // Preserve all whitespace exactly as in the original content
     return {
       role:
@@ -229,6 +694,50 @@ export class Parser {
     };
   }
 
+  /**
+   * Parses the JSON arguments of a tool call
+   * @param toolCall The tool call with the raw argument lines
+   * @returns The arguments object, empty if no args were given
+   * @throws ParseError if the arguments are not a JSON object
+   */
+  private parseToolArgs(toolCall: PendingToolCall): Record<string, unknown> {
+    const text = (toolCall.args ?? []).join('\n').trim();
+    if (text === '') {
+      return {};
+    }
+
+    let args: unknown;
+    try {
+      args = JSON.parse(text);
+    } catch (error) {
+      throw new ParseError(
+        `Invalid args for tool use "${toolCall.toolName}": ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      throw new ParseError(
+        `Invalid args for tool use "${toolCall.toolName}": args must be a JSON object`,
+      );
+    }
+    return args as Record<string, unknown>;
+  }
+
+  /**
+   * Parses a tool result, keeping it as text if it is not valid JSON
+   * @param text The raw tool response
+   * @returns The parsed JSON value or the trimmed text
+   */
+  private parseToolResult(text: string): unknown {
+    const trimmed = text.trim();
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+
   /**
    * Parses a role string into a MessageRole enum value
    * @param role The role string to parse
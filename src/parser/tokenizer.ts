@@ -7,7 +7,17 @@ export interface TestCaseElement {
   /**
    * The type of the element
    */
-  type: 'role' | 'content' | 'tool_use' | 'tool_response' | 'args';
+  type:
+    | 'role'
+    | 'content'
+    | 'tool_use'
+    | 'tool_response'
+    | 'args'
+    | 'alternative'
+    | 'expect_contains'
+    | 'expect_not_contains'
+    | 'expect_regex'
+    | 'expect_json';
 
   /**
    * The value of the element
@@ -40,8 +50,29 @@ export class TestCaseParser {
     TOOL_USE: /^tool use:/i,
     TOOL_RESPONSE: /^\s*tool response:/i,
     ARGS: /^args:/i,
+    ALTERNATIVE: /^\s*assistant\s*\(alt\):/i,
+    EXPECT_CONTAINS: /^\s*expect contains:/i,
+    EXPECT_NOT_CONTAINS: /^\s*expect not contains:/i,
+    EXPECT_REGEX: /^\s*expect regex:/i,
+    EXPECT_JSON: /^\s*expect json:/i,
   };
 
+  /**
+   * Creates a handler that pushes an assertion element with the text after the marker
+   * @param type The assertion element type
+   * @returns The pattern handler
+   */
+  private static assertionHandler(
+    type: TestCaseElement['type'],
+  ): PatternHandler {
+    return (line: string, elements: TestCaseElement[]) => {
+      elements.push({
+        type,
+        value: line.substring(line.indexOf(':') + 1).trim(),
+      });
+    };
+  }
+
   /**
    * Valid roles that can be used in test cases
    */
@@ -88,6 +119,31 @@ export class TestCaseParser {
         });
       },
     },
+    {
+      pattern: TestCaseParser.PATTERNS.ALTERNATIVE,
+      handle: (line: string, elements: TestCaseElement[]) => {
+        elements.push({
+          type: 'alternative',
+          value: line.substring(line.indexOf(':') + 1).trim(),
+        });
+      },
+    },
+    {
+      pattern: TestCaseParser.PATTERNS.EXPECT_CONTAINS,
+      handle: TestCaseParser.assertionHandler('expect_contains'),
+    },
+    {
+      pattern: TestCaseParser.PATTERNS.EXPECT_NOT_CONTAINS,
+      handle: TestCaseParser.assertionHandler('expect_not_contains'),
+    },
+    {
+      pattern: TestCaseParser.PATTERNS.EXPECT_REGEX,
+      handle: TestCaseParser.assertionHandler('expect_regex'),
+    },
+    {
+      pattern: TestCaseParser.PATTERNS.EXPECT_JSON,
+      handle: TestCaseParser.assertionHandler('expect_json'),
+    },
     {
       pattern: TestCaseParser.PATTERNS.ROLE,
       handle: (line: string, elements: TestCaseElement[]) => {
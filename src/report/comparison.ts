@@ -0,0 +1,216 @@
+import { readFile } from 'fs/promises';
+import {
+  EvaluationReport,
+  EvaluationReportSchema,
+} from '../evaluation/types/evaluation.types.js';
+import { COLORS } from '../utils/logger.js';
+
+/**
+ * Score difference of a test between a baseline and a current run
+ */
+export interface TestComparison {
+  /**
+   * The test case id
+   */
+  id: string;
+
+  /**
+   * Score in the baseline run
+   */
+  baselineScore: number;
+
+  /**
+   * Score in the current run
+   */
+  currentScore: number;
+
+  /**
+   * Current score minus baseline score
+   */
+  delta: number;
+}
+
+/**
+ * Differences between a baseline report and a current report
+ */
+export interface ReportComparison {
+  /**
+   * Tests that passed in the baseline and fail now
+   */
+  newlyFailing: TestComparison[];
+
+  /**
+   * Tests that failed in the baseline and pass now
+   */
+  newlyPassing: TestComparison[];
+
+  /**
+   * Tests whose pass status did not change but whose score changed by more than the tolerance
+   */
+  scoreChanges: TestComparison[];
+
+  /**
+   * Ids of tests that are only in the current report
+   */
+  added: string[];
+
+  /**
+   * Ids of tests that are only in the baseline report
+   */
+  removed: string[];
+
+  /**
+   * Whether any test fails now that passed before, or dropped in score by more than the tolerance
+   */
+  hasRegressions: boolean;
+}
+
+/**
+ * Loads an evaluation report written with `--format json`
+ * @param filePath The path to the report file
+ * @returns Promise that resolves with the report
+ * @throws Error if the file cannot be read or is not a valid report
+ */
+export async function loadReport(filePath: string): Promise<EvaluationReport> {
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    return EvaluationReportSchema.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(
+      `Failed to load report from ${filePath}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+  }
+}
+
+/**
+ * Compares a current report against a baseline report, matching results by test case id
+ * @param baseline The baseline report
+ * @param current The current report
+ * @param tolerance Score changes up to this amount are ignored
+ * @returns The differences between the reports
+ */
+export function compareReports(
+  baseline: EvaluationReport,
+  current: EvaluationReport,
+  tolerance: number,
+): ReportComparison {
+  const baselineResults = new Map(
+    baseline.results.map((result) => [result.testCase.id, result]),
+  );
+  const currentIds = new Set(
+    current.results.map((result) => result.testCase.id),
+  );
+
+  const comparison: ReportComparison = {
+    newlyFailing: [],
+    newlyPassing: [],
+    scoreChanges: [],
+    added: [],
+    removed: baseline.results
+      .map((result) => result.testCase.id)
+      .filter((id) => !currentIds.has(id)),
+    hasRegressions: false,
+  };
+
+  for (const result of current.results) {
+    const id = result.testCase.id;
+    const before = baselineResults.get(id);
+    if (!before) {
+      comparison.added.push(id);
+      continue;
+    }
+
+    const change: TestComparison = {
+      id,
+      baselineScore: before.score,
+      currentScore: result.score,
+      delta: result.score - before.score,
+    };
+    if (before.passed && !result.passed) {
+      comparison.newlyFailing.push(change);
+    } else if (!before.passed && result.passed) {
+      comparison.newlyPassing.push(change);
+    } else if (Math.abs(change.delta) > tolerance) {
+      comparison.scoreChanges.push(change);
+    }
+  }
+
+  comparison.hasRegressions =
+    comparison.newlyFailing.length > 0 ||
+    comparison.scoreChanges.some((change) => change.delta < 0);
+  return comparison;
+}
+
+/**
+ * Formats a report comparison for the terminal
+ * @param comparison The report comparison
+ * @returns The formatted comparison
+ */
+export function formatComparison(comparison: ReportComparison): string {
+  const formatChange = ({
+    id,
+    baselineScore,
+    currentScore,
+    delta,
+  }: TestComparison) =>
+    `  ${id}: ${baselineScore.toFixed(3)} → ${currentScore.toFixed(3)} (${
+      delta >= 0 ? '+' : ''
+    }${delta.toFixed(3)})`;
+
+  const lines: string[] = [];
+  const section = (title: string, color: string, entries: string[]) => {
+    if (entries.length > 0) {
+      lines.push(
+        `${color}${title} (${entries.length})${COLORS.reset}`,
+        ...entries,
+        '',
+      );
+    }
+  };
+
+  section(
+    'Newly Failing',
+    COLORS.test.fail,
+    comparison.newlyFailing.map(formatChange),
+  );
+  section(
+    'Newly Passing',
+    COLORS.test.pass,
+    comparison.newlyPassing.map(formatChange),
+  );
+  section(
+    'Score Regressions',
+    COLORS.test.fail,
+    comparison.scoreChanges
+      .filter((change) => change.delta < 0)
+      .map(formatChange),
+  );
+  section(
+    'Score Improvements',
+    COLORS.test.pass,
+    comparison.scoreChanges
+      .filter((change) => change.delta > 0)
+      .map(formatChange),
+  );
+  section(
+    'Added Tests',
+    COLORS.info,
+    comparison.added.map((id) => `  ${id}`),
+  );
+  section(
+    'Removed Tests',
+    COLORS.test.skip,
+    comparison.removed.map((id) => `  ${id}`),
+  );
+
+  lines.push(
+    'Comparison Summary',
+    '==================',
+    comparison.hasRegressions
+      ? `${COLORS.test.fail}Regressions found${COLORS.reset}`
+      : `${COLORS.test.pass}No regressions${COLORS.reset}`,
+  );
+  return lines.join('\n');
+}
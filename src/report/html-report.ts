@@ -0,0 +1,313 @@
+import { EvaluationReport } from '../evaluation/types/evaluation.types.js';
+import { diffWords } from './word-diff.js';
+import {
+  formatResultMatchedAnswerPlain,
+  formatRunStatisticsPlain,
+} from '../utils/formatter.js';
+
+/**
+ * A single result of an evaluation report
+ */
+type ReportResult = EvaluationReport['results'][number];
+
+/**
+ * Number of bins in the score distribution histogram
+ */
+const HISTOGRAM_BINS = 10;
+
+/**
+ * Styles of the HTML report
+ */
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; background: #fff; }
+h1, h2 { font-weight: 600; }
+.cards { display: flex; flex-wrap: wrap; gap: 1rem; }
+.card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; min-width: 7rem; }
+.card .value { font-size: 1.5rem; font-weight: 600; }
+.card .label { color: #59636e; font-size: 0.85rem; }
+.histogram { display: flex; align-items: flex-end; gap: 4px; height: 160px; border-bottom: 1px solid #d0d7de; max-width: 640px; }
+.histogram .bin { flex: 1; display: flex; flex-direction: column; justify-content: flex-end; align-items: center; height: 100%; }
+.histogram .bar { width: 100%; background: #54aeff; min-height: 1px; }
+.histogram .bar.below { background: #ff8182; }
+.histogram .count { font-size: 0.75rem; color: #59636e; }
+.axis { display: flex; gap: 4px; max-width: 640px; font-size: 0.7rem; color: #59636e; }
+.axis span { flex: 1; text-align: center; }
+.controls { display: flex; gap: 0.5rem; margin: 1rem 0; }
+.controls input, .controls select { padding: 0.35rem 0.5rem; border: 1px solid #d0d7de; border-radius: 6px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #d0d7de; vertical-align: top; }
+th { cursor: pointer; user-select: none; background: #f6f8fa; }
+th[data-order="asc"]::after { content: ' ▲'; }
+th[data-order="desc"]::after { content: ' ▼'; }
+td.number { text-align: right; font-variant-numeric: tabular-nums; }
+.status-passed { color: #1a7f37; }
+.status-failed, .status-error, .status-timeout { color: #d1242f; }
+.incomplete { border: 1px solid #d4a72c; background: #fff8c5; border-radius: 6px; padding: 0.5rem 1rem; }
+details { border: 1px solid #d0d7de; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 1rem; }
+summary { cursor: pointer; font-weight: 600; }
+pre { white-space: pre-wrap; word-break: break-word; background: #f6f8fa; padding: 0.5rem; border-radius: 6px; margin: 0.25rem 0; }
+.diff { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+.diff del { background: #ffebe9; color: #82071e; text-decoration: none; }
+.diff ins { background: #dafbe1; color: #116329; text-decoration: none; }
+`;
+
+/**
+ * Script that sorts and filters the results table
+ */
+const SCRIPT = `
+(function () {
+  var table = document.getElementById('results');
+  var body = table.tBodies[0];
+  var search = document.getElementById('search');
+  var status = document.getElementById('status');
+
+  function filter() {
+    var text = search.value.toLowerCase();
+    Array.prototype.forEach.call(body.rows, function (row) {
+      var matchesText = row.dataset.search.indexOf(text) !== -1;
+      var matchesStatus = !status.value || row.dataset.status === status.value;
+      row.hidden = !(matchesText && matchesStatus);
+    });
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (header, column) {
+    header.addEventListener('click', function () {
+      var order = header.dataset.order === 'asc' ? 'desc' : 'asc';
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (cell) {
+        delete cell.dataset.order;
+      });
+      header.dataset.order = order;
+      var numeric = header.dataset.type === 'number';
+      var rows = Array.prototype.slice.call(body.rows);
+      rows.sort(function (a, b) {
+        var x = a.cells[column].dataset.value;
+        var y = b.cells[column].dataset.value;
+        var result = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+        return order === 'asc' ? result : -result;
+      });
+      rows.forEach(function (row) {
+        body.appendChild(row);
+      });
+    });
+  });
+
+  search.addEventListener('input', filter);
+  status.addEventListener('change', filter);
+})();
+`;
+
+/**
+ * Generates a self-contained HTML report
+ *
+ * The report has a summary, a histogram of the score distribution, a sortable
+ * and filterable table of results and, for each test, a side-by-side word diff
+ * of the expected and actual response. It has no external assets.
+ *
+ * @param results The evaluation report
+ * @param threshold The score threshold for passing
+ * @returns The HTML document
+ */
+export function generateHtmlReport(
+  results: EvaluationReport,
+  threshold: number,
+): string {
+  const statusOf = (result: ReportResult) =>
+    result.status ?? (result.passed ? 'passed' : 'failed');
+  const errors = results.results.filter(
+    (result) => statusOf(result) === 'error',
+  ).length;
+  const timeouts = results.results.filter(
+    (result) => statusOf(result) === 'timeout',
+  ).length;
+
+  const cards = [
+    ['Total', String(results.totalTests)],
+    ['Passed', String(results.passedTests)],
+    ['Failed', String(results.failedTests - errors - timeouts)],
+    ['Errors', String(errors)],
+    ['Timeouts', String(timeouts)],
+    ['Pass Rate', `${(results.passRate * 100).toFixed(1)}%`],
+    ['Duration', `${results.duration.toFixed(2)}s`],
+  ]
+    .map(
+      ([label, value]) =>
+        `<div class="card"><div class="value">${value}</div><div class="label">${label}</div></div>`,
+    )
+    .join('\n');
+
+  const rows = results.results
+    .map((result, index) => {
+      const status = statusOf(result);
+      const latency =
+        result.executionTime === undefined
+          ? '-'
+          : `${Math.round(result.executionTime)}ms`;
+      return [
+        `<tr data-status="${status}" data-search="${escapeHtml(
+          `${result.testCase.id} ${result.testCase.file ?? ''}`.toLowerCase(),
+        )}">`,
+        `<td data-value="${status}" class="status-${status}">${status}</td>`,
+        `<td data-value="${escapeHtml(result.testCase.id)}"><a href="#test-${index}">${escapeHtml(
+          result.testCase.id,
+        )}</a></td>`,
+        `<td data-value="${escapeHtml(result.testCase.file ?? '')}">${escapeHtml(
+          result.testCase.file ?? '',
+        )}</td>`,
+        `<td data-value="${result.score}" class="number">${result.score.toFixed(3)}</td>`,
+        `<td data-value="${result.runs ? result.runs.passed / result.runs.count : -1}" class="number">${
+          result.runs ? `${result.runs.passed}/${result.runs.count}` : '-'
+        }</td>`,
+        `<td data-value="${result.executionTime ?? -1}" class="number">${latency}</td>`,
+        '</tr>',
+      ].join('');
+    })
+    .join('\n');
+
+  const details = results.results
+    .map((result, index) => generateDetails(result, index, statusOf(result)))
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Hebo Eval Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Hebo Eval Report</h1>
+<p>${escapeHtml(new Date(results.timestamp).toISOString())} · threshold ${threshold}</p>
+${results.incomplete ? '<p class="incomplete">Incomplete: the run was interrupted before all test cases completed.</p>\n' : ''}<div class="cards">
+${cards}
+</div>
+<h2>Score Distribution</h2>
+${generateHistogram(results, threshold)}
+<h2>Results</h2>
+<div class="controls">
+<input id="search" type="search" placeholder="Filter by test or file">
+<select id="status">
+<option value="">All statuses</option>
+<option value="passed">Passed</option>
+<option value="failed">Failed</option>
+<option value="error">Error</option>
+<option value="timeout">Timeout</option>
+</select>
+</div>
+<table id="results">
+<thead><tr><th>Status</th><th>Test</th><th>File</th><th data-type="number">Score</th><th data-type="number">Runs</th><th data-type="number">Latency</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<h2>Details</h2>
+${details}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Generates the score distribution histogram, with bins below the threshold highlighted
+ */
+function generateHistogram(
+  results: EvaluationReport,
+  threshold: number,
+): string {
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const result of results.results) {
+    const bin = Math.max(
+      0,
+      Math.min(Math.floor(result.score * HISTOGRAM_BINS), HISTOGRAM_BINS - 1),
+    );
+    counts[bin]++;
+  }
+  const max = Math.max(1, ...counts);
+
+  const bins = counts
+    .map((count, bin) => {
+      const below = (bin + 1) / HISTOGRAM_BINS <= threshold;
+      return `<div class="bin" title="${bin / HISTOGRAM_BINS}–${(bin + 1) / HISTOGRAM_BINS}: ${count}"><span class="count">${count}</span><div class="bar${
+        below ? ' below' : ''
+      }" style="height: ${Math.round((count / max) * 100)}%"></div></div>`;
+    })
+    .join('');
+  const axis = counts
+    .map((_, bin) => `<span>${(bin / HISTOGRAM_BINS).toFixed(1)}</span>`)
+    .join('');
+
+  return `<div class="histogram">${bins}</div>\n<div class="axis">${axis}</div>`;
+}
+
+/**
+ * Generates the collapsible details of a test, with a side-by-side diff of the expected and actual response
+ */
+function generateDetails(
+  result: ReportResult,
+  index: number,
+  status: string,
+): string {
+  // Compare with the text of the best matching answer, without the role prefix,
+  // or with the formatted expected turn if it has no text, e.g. only tool calls
+  const expectedText =
+    result.testCase.answers?.[result.matchedAnswer ?? 0] ||
+    result.testCase.expected;
+  const parts = diffWords(expectedText, result.response);
+  const expected = parts
+    .filter((part) => part.type !== 'added')
+    .map((part) =>
+      part.type === 'removed'
+        ? `<del>${escapeHtml(part.text)}</del>`
+        : escapeHtml(part.text),
+    )
+    .join('');
+  const matchedAnswer = formatResultMatchedAnswerPlain(result);
+  const actual = parts
+    .filter((part) => part.type !== 'removed')
+    .map((part) =>
+      part.type === 'added'
+        ? `<ins>${escapeHtml(part.text)}</ins>`
+        : escapeHtml(part.text),
+    )
+    .join('');
+
+  return [
+    `<details id="test-${index}"${result.passed ? '' : ' open'}>`,
+    `<summary><span class="status-${status}">${status}</span> ${escapeHtml(
+      result.testCase.id,
+    )} (score ${result.score.toFixed(3)})</summary>`,
+    ...(result.error
+      ? [`<p><strong>Error:</strong> ${escapeHtml(result.error)}</p>`]
+      : []),
+    ...(result.rationale
+      ? [`<p><strong>Rationale:</strong> ${escapeHtml(result.rationale)}</p>`]
+      : []),
+    ...(result.runs
+      ? [
+          `<p><strong>Runs:</strong> ${escapeHtml(formatRunStatisticsPlain(result.runs))}</p>`,
+        ]
+      : []),
+    '<h3>Input</h3>',
+    `<pre>${escapeHtml(result.testCase.input)}</pre>`,
+    ...(matchedAnswer
+      ? ['<h3>Best Match</h3>', `<pre>${escapeHtml(matchedAnswer)}</pre>`]
+      : []),
+    '<div class="diff">',
+    `<div><h3>Expected</h3><pre>${expected}</pre></div>`,
+    `<div><h3>Actual</h3><pre>${actual}</pre></div>`,
+    '</div>',
+    '</details>',
+  ].join('\n');
+}
+
+/**
+ * Escapes the characters that are special in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
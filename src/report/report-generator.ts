@@ -1,8 +1,19 @@
 import {
   EvaluationConfig,
   EvaluationReport,
+  ReportFormat,
 } from '../evaluation/types/evaluation.types.js';
 import { COLORS } from '../utils/logger.js';
+import { generateHtmlReport } from './html-report.js';
+import {
+  formatResultMatchedAnswerPlain,
+  formatRunStatisticsPlain,
+} from '../utils/formatter.js';
+
+/**
+ * A single result of an evaluation report
+ */
+type ReportResult = EvaluationReport['results'][number];
 
 /**
  * Generates reports in various formats from evaluation results
@@ -16,18 +27,28 @@ export class ReportGenerator {
 
   /**
    * Generates a report from evaluation results
+   * @param results The evaluation report
+   * @param format The output format (defaults to the configured output format)
+   * @returns The rendered report
+   * @throws Error if the format is not supported
    */
-  generateReport(results: EvaluationReport): string {
-    switch (this.config.outputFormat) {
+  generateReport(
+    results: EvaluationReport,
+    format: ReportFormat = this.config.outputFormat,
+  ): string {
+    switch (format) {
       case 'json':
         return this.generateJsonReport(results);
       case 'markdown':
         return this.generateMarkdownReport(results);
       case 'text':
         return this.generateTextReport(results);
+      case 'junit':
+        return this.generateJunitReport(results);
+      case 'html':
+        return generateHtmlReport(results, this.config.threshold);
       default: {
-        const format = this.config.outputFormat as string;
-        throw new Error(`Unsupported output format: ${format}`);
+        throw new Error(`Unsupported output format: ${format as string}`);
       }
     }
   }
@@ -40,19 +61,271 @@ export class ReportGenerator {
   }
 
   /**
-   * Generates a markdown report
+   * Generates a GitHub-flavoured Markdown report
+   *
+   * The report has a summary table, a table of results for each test file and
+   * a collapsible section for each failed test with its input, expected and
+   * actual output. It contains no ANSI color codes, so it can be pasted into
+   * pull request comments.
    */
   private generateMarkdownReport(results: EvaluationReport): string {
     const lines: string[] = [
-      'Test Summary',
-      '============',
-      `Total: ${results.totalTests}`,
-      `${COLORS.test.pass}Passed: ${results.passedTests}${COLORS.reset}`,
-      `${COLORS.test.fail}Failed: ${results.failedTests}${COLORS.reset}`,
-      `Duration: ${results.duration.toFixed(2)}s`,
+      '# Evaluation Report',
+      '',
+      '| Total | Passed | Failed | Pass Rate | Duration |',
+      '| ----: | -----: | -----: | --------: | -------: |',
+      `| ${results.totalTests} | ${results.passedTests} | ${results.failedTests} | ${(
+        results.passRate * 100
+      ).toFixed(1)}% | ${results.duration.toFixed(2)}s |`,
     ];
+    if (results.incomplete) {
+      lines.push(
+        '',
+        '> **Incomplete:** the run was interrupted before all test cases completed.',
+      );
+    }
 
-    return lines.join('\n');
+    const files = this.groupByFile(results);
+    if (files.size > 0) {
+      lines.push('', '## Results');
+    }
+    for (const [file, fileResults] of files) {
+      const passed = fileResults.filter((result) => result.passed).length;
+      lines.push(
+        '',
+        `### ${this.escapeMarkdown(file)} (${passed}/${fileResults.length} passed)`,
+        '',
+        '| Status | Test | Score | Runs | Latency |',
+        '| :----: | ---- | ----: | ---: | ------: |',
+        ...fileResults.map(
+          (result) =>
+            `| ${result.passed ? '✅' : '❌'} | ${this.escapeTableCell(
+              result.testCase.id,
+            )} | ${result.score.toFixed(3)} | ${
+              result.runs ? `${result.runs.passed}/${result.runs.count}` : '-'
+            } | ${
+              result.executionTime === undefined
+                ? '-'
+                : `${Math.round(result.executionTime)}ms`
+            } |`,
+        ),
+      );
+    }
+
+    const failures = results.results.filter((result) => !result.passed);
+    if (failures.length > 0) {
+      lines.push('', '## Failures');
+    }
+    for (const result of failures) {
+      const matchedAnswer = formatResultMatchedAnswerPlain(result);
+      lines.push(
+        '',
+        '<details>',
+        `<summary>❌ ${this.escapeHtml(result.testCase.id)} (score ${result.score.toFixed(3)})</summary>`,
+        '',
+      );
+      if (result.testCase.description) {
+        lines.push(this.escapeMarkdown(result.testCase.description), '');
+      }
+      if (result.error) {
+        lines.push(`**Error:** ${this.escapeMarkdown(result.error)}`, '');
+      }
+      if (result.rationale) {
+        lines.push(
+          `**Rationale:** ${this.escapeMarkdown(result.rationale)}`,
+          '',
+        );
+      }
+      if (result.runs) {
+        lines.push(`**Runs:** ${formatRunStatisticsPlain(result.runs)}`, '');
+      }
+      lines.push(
+        '**Input**',
+        '',
+        this.codeBlock(result.testCase.input),
+        '',
+        '**Expected**',
+        '',
+        this.codeBlock(result.testCase.expected),
+        '',
+        ...(matchedAnswer
+          ? ['**Best Match**', '', this.codeBlock(matchedAnswer), '']
+          : []),
+        '**Actual**',
+        '',
+        this.codeBlock(result.response),
+        '',
+        '</details>',
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Generates a JUnit XML report
+   *
+   * Each test file becomes a `<testsuite>` and each test case run a
+   * `<testcase>`. Tests that failed their checks are reported as failures and
+   * tests that could not be evaluated or timed out as errors. The score and
+   * threshold are added as properties and the response as `<system-out>`.
+   */
+  private generateJunitReport(results: EvaluationReport): string {
+    const isError = (result: ReportResult) =>
+      result.status === 'error' || result.status === 'timeout';
+    const isFailure = (result: ReportResult) =>
+      !result.passed && !isError(result);
+    const seconds = (milliseconds?: number) =>
+      ((milliseconds ?? 0) / 1000).toFixed(3);
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="hebo-eval" tests="${results.totalTests}" failures="${
+        results.results.filter(isFailure).length
+      }" errors="${results.results.filter(isError).length}" time="${results.duration.toFixed(
+        3,
+      )}" timestamp="${new Date(results.timestamp).toISOString()}">`,
+    ];
+
+    for (const [file, fileResults] of this.groupByFile(results)) {
+      const time = fileResults.reduce(
+        (total, result) => total + (result.executionTime ?? 0),
+        0,
+      );
+      lines.push(
+        `  <testsuite name="${this.escapeXml(file)}" tests="${fileResults.length}" failures="${
+          fileResults.filter(isFailure).length
+        }" errors="${fileResults.filter(isError).length}" time="${seconds(time)}">`,
+      );
+
+      for (const result of fileResults) {
+        lines.push(
+          `    <testcase name="${this.escapeXml(result.testCase.id)}" classname="${this.escapeXml(
+            file,
+          )}" time="${seconds(result.executionTime)}">`,
+          '      <properties>',
+          `        <property name="score" value="${result.score.toFixed(3)}"/>`,
+          `        <property name="threshold" value="${result.threshold ?? this.config.threshold}"/>`,
+          ...(result.testCase.tags?.length
+            ? [
+                `        <property name="tags" value="${this.escapeXml(result.testCase.tags.join(','))}"/>`,
+              ]
+            : []),
+          ...(result.runs
+            ? [
+                `        <property name="runs" value="${result.runs.count}"/>`,
+                `        <property name="runsPassed" value="${result.runs.passed}"/>`,
+                `        <property name="passPolicy" value="${this.escapeXml(result.runs.passPolicy)}"/>`,
+                `        <property name="scoreMin" value="${result.runs.min.toFixed(3)}"/>`,
+                `        <property name="scoreMax" value="${result.runs.max.toFixed(3)}"/>`,
+                `        <property name="scoreStddev" value="${result.runs.stddev.toFixed(3)}"/>`,
+              ]
+            : []),
+          '      </properties>',
+        );
+
+        if (!result.passed) {
+          const element = isError(result) ? 'error' : 'failure';
+          const message = result.error ?? 'Test failed';
+          const matchedAnswer = formatResultMatchedAnswerPlain(result);
+          const details = [
+            `Score: ${result.score.toFixed(3)} (threshold ${result.threshold ?? this.config.threshold})`,
+            ...(result.testCase.description
+              ? [`Description: ${result.testCase.description}`]
+              : []),
+            ...(result.rationale ? [`Rationale: ${result.rationale}`] : []),
+            ...(result.runs
+              ? [`Runs: ${formatRunStatisticsPlain(result.runs)}`]
+              : []),
+            '',
+            'Input:',
+            result.testCase.input,
+            '',
+            'Expected:',
+            result.testCase.expected,
+            ...(matchedAnswer ? ['', 'Best match:', matchedAnswer] : []),
+          ].join('\n');
+          lines.push(
+            `      <${element} message="${this.escapeXml(message)}" type="${element}">${this.escapeXml(
+              details,
+            )}</${element}>`,
+          );
+        }
+
+        lines.push(
+          `      <system-out>${this.escapeXml(result.response)}</system-out>`,
+          '    </testcase>',
+        );
+      }
+
+      lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Groups results by test file, keeping the order in which files were run
+   */
+  private groupByFile(results: EvaluationReport): Map<string, ReportResult[]> {
+    const files = new Map<string, ReportResult[]>();
+    for (const result of results.results) {
+      const file = result.testCase.file ?? 'Other';
+      files.set(file, [...(files.get(file) ?? []), result]);
+    }
+    return files;
+  }
+
+  /**
+   * Escapes text for XML attributes and content, dropping characters XML cannot contain
+   */
+  private escapeXml(text: string): string {
+    return text
+      .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Wraps text in a fenced code block, with a fence longer than any backtick run in the text
+   */
+  private codeBlock(text: string): string {
+    const longestRun = Math.max(
+      2,
+      ...(text.match(/`+/g) ?? []).map((run) => run.length),
+    );
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}text\n${text}\n${fence}`;
+  }
+
+  /**
+   * Escapes text for a single Markdown table cell
+   */
+  private escapeTableCell(text: string): string {
+    return this.escapeMarkdown(text)
+      .replace(/\|/g, '\\|')
+      .replace(/\r?\n/g, '<br>');
+  }
+
+  /**
+   * Escapes the characters that would otherwise be read as Markdown or HTML
+   */
+  private escapeMarkdown(text: string): string {
+    return this.escapeHtml(text).replace(/([\\`*_[\]#])/g, '\\$1');
+  }
+
+  /**
+   * Escapes the characters that are special in HTML
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
   }
 
   /**
@@ -67,6 +340,40 @@ export class ReportGenerator {
       `${COLORS.test.fail}Failed: ${results.failedTests}${COLORS.reset}`,
       `Duration: ${results.duration.toFixed(2)}s`,
     ];
+    if (results.incomplete) {
+      lines.push(
+        'Incomplete: the run was interrupted before all test cases completed',
+      );
+    }
+
+    // List the statistics of test cases that ran several times
+    const multiRun = results.results.filter((result) => result.runs);
+    if (multiRun.length > 0) {
+      lines.push('', 'Runs', '====');
+    }
+    for (const { testCase, passed, runs } of multiRun) {
+      if (runs) {
+        const color = passed ? COLORS.test.pass : COLORS.test.fail;
+        lines.push(
+          `${color}${testCase.id}${COLORS.reset}: ${formatRunStatisticsPlain(runs)}`,
+        );
+      }
+    }
+
+    // List the expected answers that scored best for test cases with alternatives
+    const matched = results.results.flatMap((result) => {
+      const matchedAnswer = formatResultMatchedAnswerPlain(result);
+      return matchedAnswer ? [{ result, matchedAnswer }] : [];
+    });
+    if (matched.length > 0) {
+      lines.push('', 'Best Matches', '============');
+    }
+    for (const { result, matchedAnswer } of matched) {
+      const color = result.passed ? COLORS.test.pass : COLORS.test.fail;
+      lines.push(
+        `${color}${result.testCase.id}${COLORS.reset}: ${matchedAnswer}`,
+      );
+    }
 
     return lines.join('\n');
   }
@@ -0,0 +1,140 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, extname } from 'path';
+import {
+  EvaluationReport,
+  ReportFormat,
+  ReportFormatSchema,
+} from '../evaluation/types/evaluation.types.js';
+import { ReportGenerator } from './report-generator.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * File the JSON report of an interrupted run is written to when no JSON report file is requested
+ */
+export const DEFAULT_INCOMPLETE_REPORT_FILE =
+  '.hebo-evals/incomplete-report.json';
+
+/**
+ * A report format and where to write it
+ */
+export interface ReportOutput {
+  /**
+   * The format to render the report in
+   */
+  format: ReportFormat;
+
+  /**
+   * The file to write the report to, printed to stdout if not set
+   */
+  file?: string;
+}
+
+/**
+ * Report formats for output file extensions, used when no format is given
+ */
+const EXTENSION_FORMATS: Record<string, ReportFormat> = {
+  '.json': 'json',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.xml': 'junit',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+/**
+ * Parses the report outputs given on the command line
+ *
+ * Each format is either `format` or `format:file`. A format without a file is
+ * written to the `--output` file if one is given, or printed to stdout. When
+ * only `--output` is given, the format is inferred from its extension.
+ *
+ * @param formats The values of the repeated format option
+ * @param output The value of the output option
+ * @returns The report outputs, empty if no report was requested
+ * @throws Error if a format is unknown or several formats would be written to the output file
+ */
+export function parseReportOutputs(
+  formats: string[],
+  output?: string,
+): ReportOutput[] {
+  const outputs = formats.map((value): ReportOutput => {
+    const separator = value.indexOf(':');
+    const format = separator === -1 ? value : value.slice(0, separator);
+    const file = separator === -1 ? undefined : value.slice(separator + 1);
+
+    const result = ReportFormatSchema.safeParse(format.trim());
+    if (!result.success) {
+      throw new Error(
+        `Configuration error: \`--format\` must be one of: ${ReportFormatSchema.options.join(', ')} (got "${format}")`,
+      );
+    }
+    if (file !== undefined && file.trim() === '') {
+      throw new Error(
+        `Configuration error: \`--format ${format}:\` requires a file path`,
+      );
+    }
+    return { format: result.data, file: file?.trim() };
+  });
+
+  if (!output) {
+    return outputs;
+  }
+
+  const withoutFile = outputs.filter((reportOutput) => !reportOutput.file);
+  if (withoutFile.length > 1) {
+    throw new Error(
+      'Configuration error: `--output` can only be used with a single format without a file. Use `--format <format>:<file>` for the other formats',
+    );
+  }
+  if (withoutFile.length === 1) {
+    withoutFile[0].file = output;
+    return outputs;
+  }
+  if (outputs.length > 0) {
+    throw new Error(
+      'Configuration error: `--output` requires a format without a file',
+    );
+  }
+
+  return [
+    {
+      format: EXTENSION_FORMATS[extname(output).toLowerCase()] ?? 'text',
+      file: output,
+    },
+  ];
+}
+
+/**
+ * Renders a report in each requested format and writes it to its file or stdout
+ * @param generator The report generator
+ * @param report The evaluation report
+ * @param outputs The report outputs
+ * @returns Promise that resolves when all reports are written
+ * @throws Error if a report file cannot be written
+ */
+export async function writeReports(
+  generator: ReportGenerator,
+  report: EvaluationReport,
+  outputs: ReportOutput[],
+): Promise<void> {
+  for (const { format, file } of outputs) {
+    const content = generator.generateReport(report, format);
+    if (!file) {
+      console.log(content);
+      continue;
+    }
+
+    try {
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, content.endsWith('\n') ? content : `${content}\n`);
+    } catch (error) {
+      throw new Error(
+        `Failed to write ${format} report to ${file}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+    Logger.info(`Wrote ${format} report to ${file}`);
+  }
+}
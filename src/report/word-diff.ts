@@ -0,0 +1,95 @@
+/**
+ * A run of text that is in both texts, only in the old text or only in the new text
+ */
+export interface DiffPart {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Maximum number of token comparisons before falling back to a whole-text diff
+ */
+const MAX_COMPARISONS = 1_000_000;
+
+/**
+ * Computes a word diff between two texts
+ *
+ * Texts are split into words and whitespace, and the longest common
+ * subsequence of tokens is kept as equal. Adjacent parts of the same type are
+ * merged. Very long texts are diffed as a whole to bound the cost.
+ *
+ * @param oldText The old (expected) text
+ * @param newText The new (actual) text
+ * @returns The diff parts in order
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const oldTokens = tokenize(oldText);
+  const newTokens = tokenize(newText);
+
+  if (oldTokens.length * newTokens.length > MAX_COMPARISONS) {
+    return mergeParts([
+      { type: 'removed', text: oldText },
+      { type: 'added', text: newText },
+    ]);
+  }
+
+  // lengths[i][j] is the length of the longest common subsequence of oldTokens[i:] and newTokens[j:]
+  const lengths = Array.from({ length: oldTokens.length + 1 }, () =>
+    new Array<number>(newTokens.length + 1).fill(0),
+  );
+  for (let i = oldTokens.length - 1; i >= 0; i--) {
+    for (let j = newTokens.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldTokens[i] === newTokens[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldTokens.length && j < newTokens.length) {
+    if (oldTokens[i] === newTokens[j]) {
+      parts.push({ type: 'equal', text: oldTokens[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'removed', text: oldTokens[i++] });
+    } else {
+      parts.push({ type: 'added', text: newTokens[j++] });
+    }
+  }
+  parts.push(
+    ...oldTokens.slice(i).map((text): DiffPart => ({ type: 'removed', text })),
+    ...newTokens.slice(j).map((text): DiffPart => ({ type: 'added', text })),
+  );
+
+  return mergeParts(parts);
+}
+
+/**
+ * Splits text into words and the whitespace between them
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '');
+}
+
+/**
+ * Merges adjacent parts of the same type and drops empty parts
+ */
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    if (part.text === '') {
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (last?.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,115 @@
+import { Assertion } from '../core/types/message.types.js';
+import { ContainsScorer } from './scorers/contains.scorer.js';
+import { RegexScorer } from './scorers/regex.scorer.js';
+import { JsonSchemaScorer } from './scorers/json-schema.scorer.js';
+import { parseJsonResponse } from './utils/json.js';
+
+/**
+ * Result of checking a single assertion against a response
+ */
+export interface AssertionResult {
+  /**
+   * The assertion that was checked
+   */
+  assertion: Assertion;
+
+  /**
+   * Whether the response satisfies the assertion
+   */
+  passed: boolean;
+
+  /**
+   * Explanation of why the assertion failed
+   */
+  message?: string;
+}
+
+// Shared by all assertions, so JSON Schemas are compiled once per run
+const containsScorer = new ContainsScorer();
+const regexScorer = new RegexScorer();
+const jsonSchemaScorer = new JsonSchemaScorer();
+
+/**
+ * Checks a single assertion against a response
+ * @param response The response from the agent
+ * @param assertion The assertion to check
+ * @returns Promise that resolves with the assertion result
+ * @throws Error if the assertion value is invalid (e.g. a malformed regular expression)
+ */
+async function evaluateAssertion(
+  response: string,
+  assertion: Assertion,
+): Promise<AssertionResult> {
+  const input = { conversation: [], actual: response, expected: '' };
+
+  switch (assertion.type) {
+    case 'contains': {
+      const { score, rationale } = await containsScorer.score({
+        ...input,
+        expected: assertion.value,
+      });
+      return { assertion, passed: score === 1, message: rationale };
+    }
+
+    case 'not_contains': {
+      const { score } = await containsScorer.score({
+        ...input,
+        expected: assertion.value,
+      });
+      return score === 1
+        ? {
+            assertion,
+            passed: false,
+            message: `Response contains "${assertion.value.trim()}"`,
+          }
+        : { assertion, passed: true };
+    }
+
+    case 'regex': {
+      const { score, rationale } = await regexScorer.score({
+        ...input,
+        expected: assertion.value,
+      });
+      return { assertion, passed: score === 1, message: rationale };
+    }
+
+    case 'json': {
+      if (assertion.value.trim() !== '') {
+        const { score, rationale } = await jsonSchemaScorer.score({
+          ...input,
+          expected: assertion.value,
+        });
+        return { assertion, passed: score === 1, message: rationale };
+      }
+
+      try {
+        parseJsonResponse(response);
+        return { assertion, passed: true };
+      } catch (error) {
+        return {
+          assertion,
+          passed: false,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Checks all assertions of a test case against a response
+ * @param response The response from the agent
+ * @param assertions The assertions to check
+ * @returns Promise that resolves with one result per assertion, in order
+ * @throws Error if an assertion value is invalid
+ */
+export async function evaluateAssertions(
+  response: string,
+  assertions: Assertion[],
+): Promise<AssertionResult[]> {
+  const results: AssertionResult[] = [];
+  for (const assertion of assertions) {
+    results.push(await evaluateAssertion(response, assertion));
+  }
+  return results;
+}
@@ -0,0 +1,23 @@
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+
+/**
+ * Interface for scorers
+ *
+ * A scorer compares the response of an agent with the expected answer of a
+ * test case and returns a score between 0 and 1. Scorers are registered by
+ * name in a {@link ScorerRegistry} and selected per test file or test case.
+ */
+export interface IScorer {
+  /**
+   * The unique name used to select the scorer (e.g. "semantic", "exact")
+   */
+  readonly name: string;
+
+  /**
+   * Scores a response against the expected answer
+   * @param input The conversation, expected answer and actual response
+   * @returns Promise that resolves with the score and an optional rationale
+   * @throws Error if the response cannot be scored
+   */
+  score(input: ScorerInput): Promise<ScorerResult>;
+}
@@ -0,0 +1,161 @@
+import type { CoreMessage } from 'ai';
+import { z } from 'zod';
+import { IAgent } from '../agents/interfaces/agent.interface.js';
+import { GenerationSettings } from '../config/types/config.types.js';
+import { mergeGenerationSettings } from '../config/utils/generation-settings.js';
+import { formatTestCasePlain } from '../utils/formatter.js';
+
+/**
+ * Temperature of the judge model unless configured otherwise, so the same response gets the same verdict
+ */
+const JUDGE_TEMPERATURE = 0;
+
+/**
+ * Schema for the verdict returned by the judge model
+ */
+const JudgeVerdictSchema = z.object({
+  score: z.coerce.number().min(0).max(1),
+  rationale: z.string(),
+});
+
+/**
+ * Result of judging a single response
+ */
+export type JudgeResult = z.infer<typeof JudgeVerdictSchema>;
+
+/**
+ * Input for judging a single response
+ */
+export interface JudgeInput {
+  /**
+   * The conversation that was sent to the agent under test
+   */
+  conversation: CoreMessage[];
+
+  /**
+   * The expected (reference) answer
+   */
+  expected: string;
+
+  /**
+   * The actual response from the agent under test
+   */
+  actual: string;
+
+  /**
+   * Signal that aborts the judge request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Instructions that tell the judge model how to grade a response
+ */
+const JUDGE_SYSTEM_PROMPT = `You are an impartial judge that grades the response of an AI assistant.
+You receive a conversation, the expected answer and the actual answer given by the assistant.
+Decide how well the actual answer matches the expected answer in meaning and correctness.
+Wording and formatting differences do not matter. Contradictions, missing facts and wrong facts do.
+
+Reply with a single JSON object and nothing else, using this shape:
+{"score": <number between 0 and 1>, "rationale": "<one or two sentences explaining the score>"}
+
+A score of 1 means the actual answer is fully equivalent to the expected answer.
+A score of 0 means the actual answer is wrong or unrelated.`;
+
+/**
+ * Service for scoring responses with an LLM acting as a judge
+ *
+ * The judge model is reached through an {@link IAgent}, so it uses the same
+ * provider stack and configuration as the agent under test. It is called with
+ * a temperature of 0 unless the judge generation settings say otherwise.
+ */
+export class JudgeService {
+  /**
+   * Creates a new instance of the JudgeService
+   * @param judgeAgent - The agent that wraps the judge model
+   * @param generation - Optional generation settings of the judge model
+   */
+  constructor(
+    private readonly judgeAgent: IAgent,
+    private readonly generation?: GenerationSettings,
+  ) {}
+
+  /**
+   * Asks the judge model to score an actual response against the expected one
+   *
+   * @param input - The conversation, expected answer and actual answer
+   * @returns Promise that resolves to a score between 0 and 1 and a rationale
+   * @throws Error if the judge request fails or returns an invalid verdict
+   */
+  async judge(input: JudgeInput): Promise<JudgeResult> {
+    let output: string;
+    try {
+      const result = await this.judgeAgent.sendInput({
+        messages: [
+          { role: 'system', content: JUDGE_SYSTEM_PROMPT },
+          { role: 'user', content: this.buildPrompt(input) },
+        ],
+        generation: mergeGenerationSettings(
+          { temperature: JUDGE_TEMPERATURE },
+          this.generation,
+        ),
+        signal: input.signal,
+      });
+      output = result.response;
+    } catch (error) {
+      throw new Error(
+        `Failed to get judge verdict: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+
+    return this.parseVerdict(output);
+  }
+
+  /**
+   * Builds the user prompt that is sent to the judge model
+   */
+  private buildPrompt({ conversation, expected, actual }: JudgeInput): string {
+    const transcript = formatTestCasePlain({
+      id: 'judge',
+      name: 'judge',
+      messageBlocks: conversation,
+    });
+
+    return [
+      '<conversation>',
+      transcript,
+      '</conversation>',
+      '',
+      '<expected_answer>',
+      expected,
+      '</expected_answer>',
+      '',
+      '<actual_answer>',
+      actual,
+      '</actual_answer>',
+    ].join('\n');
+  }
+
+  /**
+   * Extracts and validates the JSON verdict from the judge output
+   * @throws Error if the output does not contain a valid verdict
+   */
+  private parseVerdict(output: string): JudgeResult {
+    const match = output.match(/\{[\s\S]*\}/);
+    if (!match) {
+      throw new Error(`Judge returned an invalid verdict: ${output.trim()}`);
+    }
+
+    try {
+      return JudgeVerdictSchema.parse(JSON.parse(match[0]));
+    } catch (error) {
+      throw new Error(
+        `Judge returned an invalid verdict: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+}
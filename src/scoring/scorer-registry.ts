@@ -0,0 +1,81 @@
+import { IScorer } from './interfaces/scorer.interface.js';
+import { ScoringService } from './scoring.service.js';
+import { SemanticScorer } from './scorers/semantic.scorer.js';
+import { ExactScorer } from './scorers/exact.scorer.js';
+import { ContainsScorer } from './scorers/contains.scorer.js';
+import { RegexScorer } from './scorers/regex.scorer.js';
+import { JsonSchemaScorer } from './scorers/json-schema.scorer.js';
+
+/**
+ * Name of the scorer used when neither the test case nor the configuration selects one
+ */
+export const DEFAULT_SCORER = 'semantic';
+
+/**
+ * Registry of named scorers
+ */
+export class ScorerRegistry {
+  private readonly scorers = new Map<string, IScorer>();
+
+  /**
+   * Creates a registry with the built-in scorers
+   *
+   * The built-in scorers are `semantic`, `exact`, `contains`, `regex` and
+   * `json-schema`. Scorers that need extra configuration, such as `judge`,
+   * must be registered separately.
+   *
+   * @param scoringService The service used by the semantic scorer
+   * @returns The registry with the built-in scorers
+   */
+  static createDefault(scoringService: ScoringService): ScorerRegistry {
+    return new ScorerRegistry()
+      .register(new SemanticScorer(scoringService))
+      .register(new ExactScorer())
+      .register(new ContainsScorer())
+      .register(new RegexScorer())
+      .register(new JsonSchemaScorer());
+  }
+
+  /**
+   * Registers a scorer, replacing any scorer with the same name
+   * @param scorer The scorer to register
+   * @returns The registry, for chaining
+   */
+  register(scorer: IScorer): this {
+    this.scorers.set(scorer.name, scorer);
+    return this;
+  }
+
+  /**
+   * Checks whether a scorer is registered
+   * @param name The scorer name
+   * @returns True if a scorer with the given name is registered
+   */
+  has(name: string): boolean {
+    return this.scorers.has(name);
+  }
+
+  /**
+   * Gets a scorer by name
+   * @param name The scorer name
+   * @returns The registered scorer
+   * @throws Error if no scorer with the given name is registered
+   */
+  get(name: string): IScorer {
+    const scorer = this.scorers.get(name);
+    if (!scorer) {
+      throw new Error(
+        `Unknown scorer: ${name}. Available scorers are: ${this.getNames().join(', ')}`,
+      );
+    }
+    return scorer;
+  }
+
+  /**
+   * Gets the names of all registered scorers
+   * @returns The scorer names in registration order
+   */
+  getNames(): string[] {
+    return Array.from(this.scorers.keys());
+  }
+}
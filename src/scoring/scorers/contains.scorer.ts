@@ -0,0 +1,21 @@
+import { IScorer } from '../interfaces/scorer.interface.js';
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+
+/**
+ * Scores 1 if the response contains the expected answer (case-insensitive)
+ */
+export class ContainsScorer implements IScorer {
+  readonly name = 'contains';
+
+  /**
+   * Checks whether the expected answer appears in the response
+   */
+  score({ actual, expected }: ScorerInput): Promise<ScorerResult> {
+    const needle = expected.trim();
+    const matches = actual.toLowerCase().includes(needle.toLowerCase());
+    return Promise.resolve({
+      score: matches ? 1 : 0,
+      rationale: matches ? undefined : `Response does not contain "${needle}"`,
+    });
+  }
+}
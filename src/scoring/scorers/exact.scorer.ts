@@ -0,0 +1,22 @@
+import { IScorer } from '../interfaces/scorer.interface.js';
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+
+/**
+ * Scores 1 if the response equals the expected answer, ignoring surrounding whitespace
+ */
+export class ExactScorer implements IScorer {
+  readonly name = 'exact';
+
+  /**
+   * Compares the trimmed response with the trimmed expected answer
+   */
+  score({ actual, expected }: ScorerInput): Promise<ScorerResult> {
+    const matches = actual.trim() === expected.trim();
+    return Promise.resolve({
+      score: matches ? 1 : 0,
+      rationale: matches
+        ? undefined
+        : 'Response does not exactly match the expected answer',
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { IScorer } from '../interfaces/scorer.interface.js';
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+import { parseJsonResponse } from '../utils/json.js';
+
+/**
+ * Scores 1 if the response is JSON that satisfies the JSON Schema given as the expected answer
+ *
+ * Compiled validators are reused for the same schema text. Schemas are not
+ * added to the Ajv instance, so schemas with the same `$id` do not conflict.
+ */
+export class JsonSchemaScorer implements IScorer {
+  readonly name = 'json-schema';
+  private readonly ajv = new Ajv({
+    allErrors: true,
+    strict: false,
+    logger: false,
+    addUsedSchema: false,
+  });
+  private readonly validators = new Map<string, ValidateFunction>();
+
+  /**
+   * Validates the response against the expected schema
+   * @throws Error if the expected answer is not a valid JSON Schema
+   */
+  score(input: ScorerInput): Promise<ScorerResult> {
+    return Promise.resolve(input).then((value) => this.validate(value));
+  }
+
+  /**
+   * Parses the schema and the response and validates one against the other
+   */
+  private validate({ actual, expected }: ScorerInput): ScorerResult {
+    let validate: ValidateFunction;
+    try {
+      validate = this.getValidator(expected);
+    } catch (error) {
+      throw new Error(
+        `Expected answer is not a valid JSON Schema: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = parseJsonResponse(actual);
+    } catch (error) {
+      return {
+        score: 0,
+        rationale: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    if (validate(data)) {
+      return { score: 1 };
+    }
+
+    return {
+      score: 0,
+      rationale: `Response does not match the JSON Schema: ${this.ajv.errorsText(
+        validate.errors,
+      )}`,
+    };
+  }
+
+  /**
+   * Gets the compiled validator of a schema, compiling it on first use
+   */
+  private getValidator(schema: string): ValidateFunction {
+    let validate = this.validators.get(schema);
+    if (!validate) {
+      validate = this.ajv.compile(JSON.parse(schema) as object);
+      this.validators.set(schema, validate);
+    }
+    return validate;
+  }
+}
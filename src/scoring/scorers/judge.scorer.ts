@@ -0,0 +1,23 @@
+import { IScorer } from '../interfaces/scorer.interface.js';
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+import { JudgeService } from '../judge.service.js';
+
+/**
+ * Scores responses with an LLM acting as a judge
+ */
+export class JudgeScorer implements IScorer {
+  readonly name = 'judge';
+
+  /**
+   * Creates a new instance of the JudgeScorer
+   * @param judgeService - The service that queries the judge model
+   */
+  constructor(private readonly judgeService: JudgeService) {}
+
+  /**
+   * Asks the judge model for a score and rationale
+   */
+  score(input: ScorerInput): Promise<ScorerResult> {
+    return this.judgeService.judge(input);
+  }
+}
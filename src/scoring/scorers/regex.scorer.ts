@@ -0,0 +1,27 @@
+import { IScorer } from '../interfaces/scorer.interface.js';
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+import { parsePattern } from '../utils/pattern.js';
+
+/**
+ * Scores 1 if the response matches the regular expression given as the expected answer
+ */
+export class RegexScorer implements IScorer {
+  readonly name = 'regex';
+
+  /**
+   * Tests the response against the expected pattern
+   * @throws Error if the expected answer is not a valid regular expression
+   */
+  score(input: ScorerInput): Promise<ScorerResult> {
+    return Promise.resolve(input).then(({ actual, expected }) => {
+      const pattern = parsePattern(expected);
+      const matches = pattern.test(actual);
+      return {
+        score: matches ? 1 : 0,
+        rationale: matches
+          ? undefined
+          : `Response does not match pattern ${String(pattern)}`,
+      };
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { IScorer } from '../interfaces/scorer.interface.js';
+import { ScorerInput, ScorerResult } from '../types/scorer.types.js';
+import { ScoringService } from '../scoring.service.js';
+
+/**
+ * Scores responses by the cosine similarity of their embeddings
+ *
+ * Negative similarities are scored 0, so scores stay between 0 and 1.
+ */
+export class SemanticScorer implements IScorer {
+  readonly name = 'semantic';
+
+  /**
+   * Creates a new instance of the SemanticScorer
+   * @param scoringService - The service used to compare embeddings
+   */
+  constructor(private readonly scoringService: ScoringService) {}
+
+  /**
+   * Calculates the embedding similarity between the response and the expected answer
+   */
+  async score({
+    actual,
+    expected,
+    signal,
+  }: ScorerInput): Promise<ScorerResult> {
+    const score = await this.scoringService.scoreStrings(
+      actual,
+      expected,
+      signal,
+    );
+    return { score: Math.max(0, score) };
+  }
+}
@@ -1,37 +1,82 @@
 import { IEmbeddingProvider } from '../embeddings/interfaces/embedding-provider.interface.js';
+import { abortable } from '../utils/abort.js';
+import { ConcurrencyLimiter } from '../utils/worker-pool.js';
 import { calculateCosineSimilarity } from './utils/cosine-similarity.js';
 
+/**
+ * Maximum number of embeddings kept in memory by default
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Time in milliseconds that embedding requests are collected before they are sent as a batch
+ */
+const BATCH_DELAY = 10;
+
+/**
+ * Number of collected strings that sends a batch right away
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * A string waiting to be embedded in the next batch
+ */
+interface PendingEmbedding {
+  text: string;
+  resolve: (embedding: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
 /**
  * Service for calculating similarity scores between strings using embeddings
+ *
+ * Strings embedded ahead of scoring are sent in batches, sorted so the same
+ * strings always make the same requests, and are kept for the whole run.
+ * Other strings requested within a short delay of each other are embedded
+ * together in a batch, and are kept while they are among the most recently
+ * used embeddings. Each distinct string is embedded only once while it is kept.
  */
 export class ScoringService {
+  private readonly embeddings = new Map<string, Promise<number[]>>();
+  private readonly pinned = new Map<string, Promise<number[]>>();
+  private pending: PendingEmbedding[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
   /**
    * Creates a new instance of the ScoringService
    * @param embeddingProvider - The embedding provider to use for generating embeddings
+   * @param limiter - Optional limit on the number of embedding requests that run at the same time
+   * @param maxEntries - Maximum number of embeddings kept in memory
    */
-  constructor(private readonly embeddingProvider: IEmbeddingProvider) {}
+  constructor(
+    private readonly embeddingProvider: IEmbeddingProvider,
+    private readonly limiter?: ConcurrencyLimiter,
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+  ) {}
 
   /**
    * Calculates the similarity score between two strings using their embeddings
    *
    * @param stringA - First string to compare
    * @param stringB - Second string to compare
+   * @param signal - Optional signal that aborts the wait for the embeddings
    * @returns Promise that resolves to a similarity score between -1 and 1
    * @throws Error if embedding generation fails or vectors are invalid
    */
-  async scoreStrings(stringA: string, stringB: string): Promise<number> {
+  async scoreStrings(
+    stringA: string,
+    stringB: string,
+    signal?: AbortSignal,
+  ): Promise<number> {
     try {
       // Generate embeddings for both strings
       const [embeddingA, embeddingB] = await Promise.all([
-        this.embeddingProvider.generateEmbedding(stringA),
-        this.embeddingProvider.generateEmbedding(stringB),
+        this.embed(stringA, signal),
+        this.embed(stringB, signal),
       ]);
 
       // Calculate cosine similarity between the embeddings
-      return calculateCosineSimilarity(
-        embeddingA.embedding,
-        embeddingB.embedding,
-      );
+      return calculateCosineSimilarity(embeddingA, embeddingB);
     } catch (error) {
       throw new Error(
         `Failed to calculate similarity score: ${
@@ -40,4 +85,135 @@ export class ScoringService {
       );
     }
   }
+
+  /**
+   * Embeds strings in batches ahead of scoring, and keeps them so later scores reuse their embeddings
+   *
+   * @param texts - The strings to embed
+   * @param signal - Optional signal that aborts the wait for the embeddings
+   * @returns Promise that resolves when all strings are embedded
+   * @throws Error if embedding generation fails
+   */
+  async embedStrings(texts: string[], signal?: AbortSignal): Promise<void> {
+    const distinct = Array.from(new Set(texts)).filter(
+      (text) => text.trim().length > 0 && !this.pinned.has(text),
+    );
+    const missing = distinct
+      .filter((text) => !this.embeddings.has(text))
+      .sort();
+    if (missing.length > 0) {
+      const batch = this.requestBatch(missing);
+      missing.forEach((text, index) =>
+        this.pin(
+          text,
+          batch.then((embeddings) => embeddings[index]),
+        ),
+      );
+    }
+    // Strings already in memory are kept too
+    for (const text of distinct) {
+      const embedding = this.embeddings.get(text);
+      if (embedding) {
+        this.embeddings.delete(text);
+        this.pin(text, embedding);
+      }
+    }
+    await Promise.all(texts.map((text) => this.embed(text, signal)));
+  }
+
+  /**
+   * Gets the embedding of a string, adding it to the next batch if it is not in memory
+   *
+   * The request is shared by every caller of the same string, so the signal
+   * only ends the wait of this caller and does not abort the request.
+   */
+  private embed(text: string, signal?: AbortSignal): Promise<number[]> {
+    // Reject empty strings right away, so they do not fail the whole batch
+    if (text.trim().length === 0) {
+      return Promise.reject(new Error('Input text cannot be empty'));
+    }
+
+    let embedding = this.pinned.get(text) ?? this.embeddings.get(text);
+    if (embedding) {
+      if (this.embeddings.delete(text)) {
+        // Move the embedding to the end, as the most recently used
+        this.embeddings.set(text, embedding);
+      }
+    } else {
+      embedding = new Promise<number[]>((resolve, reject) => {
+        this.pending.push({ text, resolve, reject });
+        if (this.pending.length >= MAX_BATCH_SIZE) {
+          this.flush();
+        } else {
+          this.timer ??= setTimeout(() => this.flush(), BATCH_DELAY);
+        }
+      });
+      this.remember(text, embedding);
+    }
+    return signal ? abortable(embedding, signal) : embedding;
+  }
+
+  /**
+   * Embeds the pending strings in a batch
+   */
+  private flush(): void {
+    const batch = this.pending;
+    this.pending = [];
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    this.requestBatch(batch.map(({ text }) => text)).then(
+      (embeddings) =>
+        batch.forEach(({ resolve }, index) => resolve(embeddings[index])),
+      (error) => batch.forEach(({ reject }) => reject(error)),
+    );
+  }
+
+  /**
+   * Keeps an embedding in memory for the whole run
+   */
+  private pin(text: string, embedding: Promise<number[]>): void {
+    this.pinned.set(text, embedding);
+    // Forget failed embeddings, so they are requested again
+    embedding.catch(() => {
+      if (this.pinned.get(text) === embedding) {
+        this.pinned.delete(text);
+      }
+    });
+  }
+
+  /**
+   * Keeps an embedding in memory, dropping the least recently used embeddings beyond the maximum
+   */
+  private remember(text: string, embedding: Promise<number[]>): void {
+    this.embeddings.set(text, embedding);
+    // Forget failed embeddings, so they are requested again
+    embedding.catch(() => {
+      if (this.embeddings.get(text) === embedding) {
+        this.embeddings.delete(text);
+      }
+    });
+    for (const key of this.embeddings.keys()) {
+      if (this.embeddings.size <= this.maxEntries) {
+        break;
+      }
+      this.embeddings.delete(key);
+    }
+  }
+
+  /**
+   * Requests the embeddings of strings in a batch, waiting for a free slot if requests are limited
+   */
+  private requestBatch(texts: string[]): Promise<number[][]> {
+    const task = async () => {
+      const responses = await this.embeddingProvider.generateEmbeddings(texts);
+      if (responses.length !== texts.length) {
+        throw new Error(
+          `Expected ${texts.length} embeddings, got ${responses.length}`,
+        );
+      }
+      return responses.map(({ embedding }) => embedding);
+    };
+    return this.limiter ? this.limiter.run(task) : task();
+  }
 }
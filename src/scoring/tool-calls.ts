@@ -0,0 +1,126 @@
+import { parsePattern } from './utils/pattern.js';
+
+/**
+ * A tool call identified by the tool name and its arguments
+ */
+export interface ToolCallLike {
+  toolName: string;
+  args: unknown;
+}
+
+/**
+ * Result of checking a single expected tool call against the calls the agent made
+ */
+export interface ToolCallResult {
+  /**
+   * The expected tool call
+   */
+  expected: ToolCallLike;
+
+  /**
+   * Whether the agent made the expected call, in order
+   */
+  passed: boolean;
+
+  /**
+   * Explanation of why the check failed
+   */
+  message?: string;
+}
+
+/**
+ * Checks whether actual arguments contain the expected ones
+ *
+ * Objects match when every expected key matches, so extra actual keys are
+ * ignored. Arrays must have the same length and matching items. Strings in
+ * literal form (`/^par/i`) are regular expressions. Other values must be
+ * strictly equal.
+ *
+ * @param expected The expected arguments
+ * @param actual The actual arguments
+ * @returns True if the actual arguments match the expected ones
+ * @throws Error if an expected regular expression is invalid
+ */
+export function matchesArgs(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesArgs(item, actual[index]))
+    );
+  }
+
+  if (typeof expected === 'object' && expected !== null) {
+    if (
+      typeof actual !== 'object' ||
+      actual === null ||
+      Array.isArray(actual)
+    ) {
+      return false;
+    }
+    const actualRecord = actual as Record<string, unknown>;
+    return Object.entries(expected).every(([key, value]) =>
+      matchesArgs(value, actualRecord[key]),
+    );
+  }
+
+  if (
+    typeof expected === 'string' &&
+    typeof actual === 'string' &&
+    /^\/[\s\S]+\/[a-z]*$/.test(expected)
+  ) {
+    return parsePattern(expected).test(actual);
+  }
+
+  return expected === actual;
+}
+
+/**
+ * Checks that the agent made the expected tool calls, in order
+ *
+ * Each expected call must match a later actual call than the previous expected
+ * call did. Actual calls that are not expected are ignored.
+ *
+ * @param expected The expected tool calls, in order
+ * @param actual The tool calls made by the agent, in order
+ * @returns One result per expected tool call, in order
+ */
+export function evaluateToolCalls(
+  expected: ToolCallLike[],
+  actual: ToolCallLike[],
+): ToolCallResult[] {
+  let nextIndex = 0;
+
+  return expected.map((expectedCall): ToolCallResult => {
+    const matches = (call: ToolCallLike) =>
+      call.toolName === expectedCall.toolName &&
+      matchesArgs(expectedCall.args, call.args);
+
+    const index = actual.findIndex(
+      (call, callIndex) => callIndex >= nextIndex && matches(call),
+    );
+    if (index !== -1) {
+      nextIndex = index + 1;
+      return { expected: expectedCall, passed: true };
+    }
+
+    if (actual.some(matches)) {
+      return {
+        expected: expectedCall,
+        passed: false,
+        message: 'Tool was called out of order',
+      };
+    }
+
+    const sameTool = actual.find(
+      (call) => call.toolName === expectedCall.toolName,
+    );
+    return {
+      expected: expectedCall,
+      passed: false,
+      message: sameTool
+        ? `Tool was called with different args: ${JSON.stringify(sameTool.args)}`
+        : 'Tool was not called',
+    };
+  });
+}
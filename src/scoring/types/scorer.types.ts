@@ -0,0 +1,41 @@
+import type { CoreMessage } from 'ai';
+
+/**
+ * Input passed to a scorer
+ */
+export interface ScorerInput {
+  /**
+   * The conversation that was sent to the agent under test
+   */
+  conversation: CoreMessage[];
+
+  /**
+   * The expected (reference) answer from the test case
+   */
+  expected: string;
+
+  /**
+   * The actual response from the agent under test
+   */
+  actual: string;
+
+  /**
+   * Signal that aborts scoring, e.g. when the test case times out
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result produced by a scorer
+ */
+export interface ScorerResult {
+  /**
+   * Score between 0 and 1 indicating how well the response matches
+   */
+  score: number;
+
+  /**
+   * Optional explanation of the score
+   */
+  rationale?: string;
+}
@@ -0,0 +1,25 @@
+/**
+ * Parses JSON from an agent response
+ *
+ * Models often wrap JSON in a Markdown code fence, so a single surrounding
+ * ```json ... ``` block is removed before parsing.
+ *
+ * @param text - The response text to parse
+ * @returns The parsed JSON value
+ * @throws Error if the text is not valid JSON
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim();
+  const fenceMatch = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  const json = fenceMatch ? fenceMatch[1] : trimmed;
+
+  try {
+    return JSON.parse(json) as unknown;
+  } catch (error) {
+    throw new Error(
+      `Response is not valid JSON: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Parses a pattern string into a regular expression
+ *
+ * Patterns can be written as a plain expression (`^The answer is \d+`) or in
+ * literal form with flags (`/refund policy/i`).
+ *
+ * @param pattern - The pattern to parse
+ * @returns The compiled regular expression
+ * @throws Error if the pattern is not a valid regular expression
+ */
+export function parsePattern(pattern: string): RegExp {
+  const trimmed = pattern.trim();
+  const literalMatch = trimmed.match(/^\/([\s\S]+)\/([a-z]*)$/);
+
+  try {
+    return literalMatch
+      ? new RegExp(literalMatch[1], literalMatch[2])
+      : new RegExp(trimmed);
+  } catch (error) {
+    throw new Error(
+      `Invalid regular expression: ${trimmed}. ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+  }
+}
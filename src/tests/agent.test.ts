@@ -1,13 +1,28 @@
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { Agent } from '../agents/implementations/agent.js';
 import { jest } from '@jest/globals';
 import { ConfigLoader } from '../config/config.loader.js';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { GenerationSettings } from '../config/types/config.types.js';
+import { Cassette, CassetteMode } from '../utils/cassette.js';
+import { RequestScheduler } from '../utils/request-scheduler.js';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock ConfigLoader to avoid file system and fixture usage in tests
 const dummyConfig: {
   providers: Record<
     string,
-    { apiKey: string; provider: string; model: string; baseUrl?: string }
+    {
+      apiKey: string;
+      provider: string;
+      model: string;
+      baseUrl?: string;
+      api?: string;
+      generation?: GenerationSettings;
+    }
   >;
 } = {
   providers: {
@@ -41,6 +56,9 @@ const mockConfigLoader = {
   getProviderBaseUrl: jest.fn(
     (provider) => dummyConfig.providers[String(provider)]?.baseUrl,
   ),
+  getProviderConfig: jest.fn(
+    (provider) => dummyConfig.providers[String(provider)],
+  ),
 };
 mockGetInstance.mockReturnValue(mockConfigLoader as unknown as ConfigLoader);
 
@@ -117,6 +135,16 @@ describe('Agent', () => {
       }).toThrow('Configuration error: You are using an OpenAI API key');
     });
 
+    it('should throw error for OpenAI key with Anthropic provider', () => {
+      expect(() => {
+        new Agent('claude-3-5-haiku-latest', {
+          apiKey: 'sk-test123456789012345678901234567890',
+        });
+      }).toThrow(
+        'Configuration error: You are using an OpenAI API key with the Anthropic provider',
+      );
+    });
+
     it('should throw error for non-OpenAI key with OpenAI provider', () => {
       expect(() => {
         new Agent('gpt-4', {
@@ -152,6 +180,391 @@ describe('Agent', () => {
     });
   });
 
+  describe('APIs', () => {
+    let server: Server;
+    let baseUrl: string;
+    let responseBody: object;
+    let queuedResponses: Array<{ status: number; body: object }>;
+    let requests: Array<{
+      url?: string;
+      headers: IncomingHttpHeaders;
+      body: Record<string, unknown>;
+    }>;
+
+    beforeEach(async () => {
+      requests = [];
+      queuedResponses = [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        req.on('end', () => {
+          requests.push({
+            url: req.url,
+            headers: req.headers,
+            body: JSON.parse(body) as Record<string, unknown>,
+          });
+          // Queued responses are sent first, then the default response
+          const { status, body: next } = queuedResponses.shift() ?? {
+            status: 200,
+            body: responseBody,
+          };
+          res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Retry-After': '0',
+          });
+          res.end(JSON.stringify(next));
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterEach(async () => {
+      delete dummyConfig.providers['custom-hebo'].api;
+      delete dummyConfig.providers['custom-hebo'].generation;
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should send the system prompt, messages and API key to the Anthropic Messages API', async () => {
+      responseBody = {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-haiku-latest',
+        content: [{ type: 'text', text: 'Hello from Claude' }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 12, output_tokens: 4 },
+      };
+      const agent = new Agent('claude-3-5-haiku-latest', {
+        apiKey: 'sk-ant-REDACTED',
+        baseUrl,
+      });
+
+      const output = await agent.sendInput({
+        messages: [
+          { role: 'system', content: 'You are terse.' },
+          { role: 'user', content: 'Hello' },
+        ],
+      });
+
+      expect(agent.getConfig().provider).toBe('anthropic');
+      expect(output.response).toBe('Hello from Claude');
+      expect(output.metadata?.api).toBe('messages');
+      expect(output.metadata?.usage?.totalTokens).toBe(16);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url).toBe('/v1/messages');
+      expect(requests[0].headers['x-api-key']).toBe(
+        'sk-ant-REDACTED',
+      );
+      expect(requests[0].headers['anthropic-version']).toBeTruthy();
+      expect(requests[0].headers.authorization).toBeUndefined();
+      expect(requests[0].body).toMatchObject({
+        model: 'claude-3-5-haiku-latest',
+        system: [{ type: 'text', text: 'You are terse.' }],
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+        ],
+      });
+    });
+
+    it('should use the Chat Completions API when configured', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'chat';
+      responseBody = {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'model',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hello from chat' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      };
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+      });
+
+      const output = await agent.sendInput({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(agent.getConfig().api).toBe('chat');
+      expect(output.response).toBe('Hello from chat');
+      expect(output.metadata?.api).toBe('chat');
+      expect(requests[0].url).toBe('/v1/chat/completions');
+      expect(requests[0].body).toMatchObject({
+        model: 'model',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+    });
+
+    it('should send the provider generation settings, overridden by the input settings', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'chat';
+      dummyConfig.providers['custom-hebo'].generation = {
+        temperature: 0.5,
+        maxTokens: 100,
+        stopSequences: ['END'],
+      };
+      responseBody = {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'model',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hello' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+      };
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+      });
+
+      const output = await agent.sendInput({
+        messages: [{ role: 'user', content: 'Hello' }],
+        generation: { temperature: 0, seed: 42 },
+      });
+
+      expect(requests[0].body).toMatchObject({
+        temperature: 0,
+        max_tokens: 100,
+        seed: 42,
+        stop: ['END'],
+      });
+      expect(output.metadata?.generation).toEqual({
+        temperature: 0,
+        maxTokens: 100,
+        seed: 42,
+        stopSequences: ['END'],
+      });
+    });
+
+    it('should answer tool calls with the mock responses and collect them', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'chat';
+      queuedResponses = [
+        {
+          status: 200,
+          body: {
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 1700000000,
+            model: 'model',
+            choices: [
+              {
+                index: 0,
+                message: {
+                  role: 'assistant',
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: 'call_1',
+                      type: 'function',
+                      function: {
+                        name: 'get_weather',
+                        arguments: '{"city":"Paris"}',
+                      },
+                    },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+            usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+          },
+        },
+      ];
+      responseBody = {
+        id: 'chatcmpl-2',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'model',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'It is 21°C in Paris' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 6, total_tokens: 18 },
+      };
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+      });
+
+      const output = await agent.sendInput({
+        messages: [{ role: 'user', content: 'What is the weather in Paris?' }],
+        tools: {
+          get_weather: {
+            parameters: {
+              type: 'object',
+              properties: { city: { type: 'string' } },
+            },
+            responses: [
+              { args: { city: 'London' }, response: { temperature: 15 } },
+              { args: { city: 'Paris' }, response: { temperature: 21 } },
+            ],
+          },
+        },
+      });
+
+      expect(output.response).toBe('It is 21°C in Paris');
+      expect(requests).toHaveLength(2);
+      expect(requests[1].body.messages).toContainEqual({
+        role: 'tool',
+        tool_call_id: 'call_1',
+        content: '{"temperature":21}',
+      });
+      expect(output.toolCalls).toEqual([
+        {
+          toolCallId: 'call_1',
+          toolName: 'get_weather',
+          args: { city: 'Paris' },
+          result: { temperature: 21 },
+        },
+      ]);
+    });
+
+    it('should retry a rate limited model call through the scheduler', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'chat';
+      queuedResponses = [
+        { status: 429, body: { error: { message: 'Rate limit exceeded' } } },
+      ];
+      responseBody = {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'model',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hello after retry' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      };
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+        scheduler: new RequestScheduler({ initialDelay: 1 }),
+      });
+
+      const output = await agent.sendInput({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(output.response).toBe('Hello after retry');
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should report the error of the provider when the retries are used up', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'chat';
+      queuedResponses = Array.from({ length: 2 }, () => ({
+        status: 503,
+        body: { error: { message: 'Service unavailable' } },
+      }));
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+        scheduler: new RequestScheduler({ initialDelay: 1, maxRetries: 1 }),
+      });
+
+      await expect(
+        agent.sendInput({ messages: [{ role: 'user', content: 'Hello' }] }),
+      ).rejects.toThrow('Service unavailable');
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should use the Completions API when configured', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'completion';
+      responseBody = {
+        id: 'cmpl-1',
+        object: 'text_completion',
+        created: 1700000000,
+        model: 'model',
+        choices: [
+          {
+            index: 0,
+            text: 'Hello from completion',
+            logprobs: null,
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      };
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+      });
+
+      const output = await agent.sendInput({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(output.response).toBe('Hello from completion');
+      expect(output.metadata?.api).toBe('completion');
+      expect(requests[0].url).toBe('/v1/completions');
+      expect(requests[0].body.prompt).toContain('Hello');
+    });
+
+    it('should replay a recorded response without sending a request', async () => {
+      dummyConfig.providers['custom-hebo'].api = 'chat';
+      responseBody = {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'model',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hello from the cassette' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      };
+      const directory = await mkdtemp(join(tmpdir(), 'hebo-cassette-'));
+      const send = (mode: CassetteMode) =>
+        new Agent('custom-model', {
+          apiKey: 'custom_api_key_123456789012345678901234567890',
+          baseUrl,
+          fetch: new Cassette(directory, mode).fetch,
+        }).sendInput({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      try {
+        const recorded = await send('record');
+        const replayed = await send('replay');
+
+        expect(recorded.response).toBe('Hello from the cassette');
+        expect(replayed.response).toBe('Hello from the cassette');
+        expect(requests).toHaveLength(1);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should use the Responses API by default', () => {
+      const agent = new Agent('custom-model', {
+        apiKey: 'custom_api_key_123456789012345678901234567890',
+        baseUrl,
+      });
+
+      expect(agent.getConfig().api).toBe('responses');
+    });
+  });
+
   describe('Cleanup', () => {
     it('should have cleanup method that resolves', async () => {
       const agent = new Agent('gato-qa:v1', {
@@ -4,8 +4,26 @@ import {
   EmbeddingProviderFactory,
   EmbeddingSystemConfig,
 } from '../embeddings/config/embedding.config';
-import { EmbeddingProvider } from '../embeddings/implementations/embedding-provider.js';
+import {
+  EmbeddingProvider,
+  splitBatches,
+} from '../embeddings/implementations/embedding-provider.js';
 import { EmbeddingResponse } from '../embeddings/types/embedding.types.js';
+import {
+  HttpError,
+  RequestScheduler,
+  parseRetryAfter,
+} from '../utils/request-scheduler.js';
+import { Cassette } from '../utils/cassette.js';
+import {
+  EmbeddingCache,
+  formatCacheStats,
+} from '../embeddings/cache/embedding-cache.js';
+import { CachedEmbeddingProvider } from '../embeddings/implementations/cached-embedding-provider.js';
+import { IEmbeddingProvider } from '../embeddings/interfaces/embedding-provider.interface.js';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock fetch
 const mockFetch = jest.fn<typeof fetch>();
@@ -507,6 +525,381 @@ describe('Embedding System', () => {
     });
   });
 
+  describe('RequestScheduler', () => {
+    const httpError = (status: number, retryAfter?: string) =>
+      new HttpError(`HTTP error! status: ${status}`, status, retryAfter);
+
+    it('should retry rate limited requests, waiting as long as Retry-After asks', async () => {
+      const scheduler = new RequestScheduler({ initialDelay: 1 });
+      const request = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(httpError(429, '0.05'))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce('ok');
+
+      const start = Date.now();
+      await expect(scheduler.schedule('openai', request)).resolves.toBe('ok');
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should not retry client errors', async () => {
+      const scheduler = new RequestScheduler({ initialDelay: 1 });
+      const request = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValue(httpError(400));
+
+      await expect(scheduler.schedule('openai', request)).rejects.toThrow(
+        'HTTP error! status: 400',
+      );
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const scheduler = new RequestScheduler({ initialDelay: 1 });
+      scheduler.configure('openai', { maxRetries: 2 });
+      const request = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValue(httpError(500));
+
+      await expect(scheduler.schedule('openai', request)).rejects.toThrow(
+        'HTTP error! status: 500',
+      );
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for tokens when the tokens per minute are used up', async () => {
+      const scheduler = new RequestScheduler();
+      // 6000 tokens per minute refill at 100 tokens per second
+      scheduler.configure('openai', { tokensPerMinute: 6000 });
+      const request = jest.fn<() => Promise<string>>().mockResolvedValue('ok');
+
+      const start = Date.now();
+      await scheduler.schedule('openai', request, { tokens: 6000 });
+      await scheduler.schedule('openai', request, { tokens: 10 });
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should parse Retry-After in seconds or as a date', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(
+        parseRetryAfter(new Date(Date.now() + 60_000).toUTCString()),
+      ).toBeGreaterThan(58_000);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+
+    it('should retry embedding requests that fail with a server error', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ error: 'busy' }, 503))
+        .mockResolvedValueOnce(
+          createMockResponse<MockOpenAIResponse>({
+            data: [{ embedding: [0.1, 0.2], object: 'embedding', index: 0 }],
+            model: 'test-model',
+            object: 'list',
+            usage: { prompt_tokens: 2, total_tokens: 2 },
+          }),
+        );
+      const config = {
+        provider: 'openai' as const,
+        model: 'test-model',
+        apiKey: 'test-key',
+      };
+      const provider = new EmbeddingProvider(
+        config,
+        'test-key',
+        new RequestScheduler({ initialDelay: 1 }),
+      );
+      await provider.initialize(config);
+
+      const result = await provider.generateEmbedding('test text');
+
+      expect(result.embedding).toEqual([0.1, 0.2]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Cassette', () => {
+    const config = {
+      provider: 'openai' as const,
+      model: 'test-model',
+      apiKey: 'test-key',
+    };
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'hebo-cassette-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    const createProvider = async (cassette: Cassette, apiKey: string) => {
+      const provider = new EmbeddingProvider(
+        { ...config, apiKey },
+        apiKey,
+        new RequestScheduler({ initialDelay: 1 }),
+        cassette.fetch,
+      );
+      await provider.initialize({ ...config, apiKey });
+      return provider;
+    };
+
+    it('should replay recorded embeddings without sending requests, whatever the API key', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createMockResponse<MockOpenAIResponse>({
+          data: [{ embedding: [0.1, 0.2], object: 'embedding', index: 0 }],
+          model: 'test-model',
+          object: 'list',
+          usage: { prompt_tokens: 2, total_tokens: 2 },
+        }),
+      );
+      const recorder = await createProvider(
+        new Cassette(directory, 'record'),
+        'test-key',
+      );
+      await recorder.generateEmbedding('test text');
+
+      const player = await createProvider(
+        new Cassette(directory, 'replay'),
+        'other-key',
+      );
+      const result = await player.generateEmbedding('test text');
+
+      expect(result.embedding).toEqual([0.1, 0.2]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(await readdir(directory)).toHaveLength(1);
+      await expect(player.generateEmbedding('other text')).rejects.toThrow(
+        'No recorded response for POST https://api.openai.com/v1/embeddings',
+      );
+    });
+
+    it('should replay recorded embeddings per text, whichever texts are batched together', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createMockResponse<MockOpenAIResponse>({
+          data: [
+            { embedding: [0.3, 0.4], object: 'embedding', index: 1 },
+            { embedding: [0.1, 0.2], object: 'embedding', index: 0 },
+            { embedding: [0.5, 0.6], object: 'embedding', index: 2 },
+          ],
+          model: 'test-model',
+          object: 'list',
+          usage: { prompt_tokens: 6, total_tokens: 6 },
+        }),
+      );
+      const recorder = await createProvider(
+        new Cassette(directory, 'record'),
+        'test-key',
+      );
+      await recorder.generateEmbeddings(['one', 'two', 'three']);
+
+      const player = await createProvider(
+        new Cassette(directory, 'replay'),
+        'test-key',
+      );
+      const batch = await player.generateEmbeddings(['three', 'two']);
+      const single = await player.generateEmbedding('one');
+
+      expect(batch.map(({ embedding }) => embedding)).toEqual([
+        [0.5, 0.6],
+        [0.3, 0.4],
+      ]);
+      expect(single.embedding).toEqual([0.1, 0.2]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(await readdir(directory)).toHaveLength(3);
+      await expect(
+        player.generateEmbeddings(['one', 'other text']),
+      ).rejects.toThrow(
+        'No recorded response for POST https://api.openai.com/v1/embeddings',
+      );
+    });
+
+    it('should not record failed responses', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ error: 'bad' }, 400));
+      const recorder = await createProvider(
+        new Cassette(directory, 'record'),
+        'test-key',
+      );
+
+      await expect(recorder.generateEmbedding('test text')).rejects.toThrow(
+        'HTTP error! status: 400',
+      );
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+
+  describe('EmbeddingCache', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'hebo-embedding-cache-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    const createProvider = (model = 'test-model') => {
+      const generateEmbedding = jest.fn<
+        IEmbeddingProvider['generateEmbedding']
+      >((text) => Promise.resolve({ embedding: [text.length, 0.1 + 0.2] }));
+      const generateEmbeddings = jest.fn<
+        IEmbeddingProvider['generateEmbeddings']
+      >((texts) =>
+        Promise.resolve(texts.map((text) => ({ embedding: [text.length] }))),
+      );
+      const provider = {
+        getConfig: () => ({ provider: 'openai', model, apiKey: 'test-key' }),
+        generateEmbedding,
+        generateEmbeddings,
+      } as unknown as IEmbeddingProvider;
+      return { provider, generateEmbedding, generateEmbeddings };
+    };
+
+    it('should only request the embeddings of a batch that are not cached', async () => {
+      const { provider, generateEmbeddings } = createProvider();
+      const cached = new CachedEmbeddingProvider(
+        provider,
+        new EmbeddingCache(directory),
+      );
+      await cached.generateEmbeddings(['a', 'bb']);
+      const results = await cached.generateEmbeddings(['bb', 'ccc', 'a']);
+
+      expect(results.map(({ embedding }) => embedding)).toEqual([
+        [2],
+        [3],
+        [1],
+      ]);
+      expect(results.map(({ metadata }) => !!metadata?.cached)).toEqual([
+        true,
+        false,
+        true,
+      ]);
+      expect(generateEmbeddings.mock.calls).toEqual([
+        [['a', 'bb'], undefined],
+        [['ccc'], undefined],
+      ]);
+    });
+
+    it('should serve embeddings from disk in later runs, per provider and model', async () => {
+      const { provider, generateEmbedding } = createProvider();
+      const first = new CachedEmbeddingProvider(
+        provider,
+        new EmbeddingCache(directory),
+      );
+      await first.generateEmbedding('Hi there!');
+      await first.generateEmbedding('Hi there!');
+      expect(generateEmbedding).toHaveBeenCalledTimes(1);
+
+      const cache = new EmbeddingCache(directory);
+      const second = new CachedEmbeddingProvider(provider, cache);
+      const result = await second.generateEmbedding('Hi there!');
+
+      expect(result.embedding).toEqual([9, 0.1 + 0.2]);
+      expect(result.metadata?.cached).toBe(true);
+      expect(generateEmbedding).toHaveBeenCalledTimes(1);
+      expect(cache.hits).toBe(1);
+
+      const other = createProvider('other-model');
+      await new CachedEmbeddingProvider(
+        other.provider,
+        new EmbeddingCache(directory),
+      ).generateEmbedding('Hi there!');
+      expect(other.generateEmbedding).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove the least recently used embeddings beyond the maximum size', async () => {
+      // Each embedding of two values takes 16 bytes
+      const cache = new EmbeddingCache(directory, { maxSize: 40 });
+      const wait = () => new Promise((resolve) => setTimeout(resolve, 20));
+      await cache.set('openai', 'test-model', 'a', [1, 1]);
+      await wait();
+      await cache.set('openai', 'test-model', 'b', [2, 2]);
+      await wait();
+      await new EmbeddingCache(directory).get('openai', 'test-model', 'a');
+      await wait();
+      await cache.set('openai', 'test-model', 'c', [3, 3]);
+
+      const reader = new EmbeddingCache(directory);
+      expect(await reader.get('openai', 'test-model', 'a')).toEqual([1, 1]);
+      expect(await reader.get('openai', 'test-model', 'b')).toBeUndefined();
+      expect(await reader.get('openai', 'test-model', 'c')).toEqual([3, 3]);
+    });
+
+    it('should count overwritten and concurrently written embeddings once', async () => {
+      await new EmbeddingCache(directory).set('openai', 'test-model', 'a', [1]);
+      const cache = new EmbeddingCache(directory);
+      await Promise.all([
+        cache.set('openai', 'test-model', 'a', [1, 1]),
+        cache.set('openai', 'test-model', 'b', [2, 2]),
+      ]);
+      await cache.set('openai', 'test-model', 'a', [1, 1]);
+
+      expect((cache as unknown as { size: number }).size).toBe(32);
+      expect((await cache.stats()).size).toBe(32);
+    });
+
+    it('should remove empty and truncated embeddings and write them again', async () => {
+      const writer = new EmbeddingCache(directory);
+      await writer.set('openai', 'test-model', 'a', [1, 2]);
+      await writer.set('openai', 'test-model', 'b', [3, 4]);
+      const getPath = (text: string) =>
+        (
+          writer as unknown as {
+            getPath: (provider: string, model: string, text: string) => string;
+          }
+        ).getPath('openai', 'test-model', text);
+      await writeFile(getPath('a'), Buffer.alloc(12));
+      await writeFile(getPath('b'), Buffer.alloc(0));
+
+      const cache = new EmbeddingCache(directory);
+      expect(await cache.get('openai', 'test-model', 'a')).toBe(undefined);
+      expect(await cache.get('openai', 'test-model', 'b')).toBe(undefined);
+      expect(cache.misses).toBe(2);
+      expect((await cache.stats()).entries).toBe(0);
+
+      await cache.set('openai', 'test-model', 'a', [1, 2]);
+      expect(
+        await new EmbeddingCache(directory).get('openai', 'test-model', 'a'),
+      ).toEqual([1, 2]);
+      expect(
+        await readdir(join(directory, 'openai', 'test-model')),
+      ).toHaveLength(1);
+    });
+
+    it('should report statistics and clear the cache', async () => {
+      const cache = new EmbeddingCache(directory);
+      await cache.set('openai', 'text-embedding-3-small', 'a', [1, 2]);
+      await cache.set('hebo', 'hebo/embeddings:v1', 'b', [3]);
+
+      const stats = await cache.stats();
+      expect(stats.entries).toBe(2);
+      expect(stats.size).toBe(24);
+      expect(stats.models).toEqual(
+        expect.arrayContaining([
+          {
+            provider: 'hebo',
+            model: 'hebo/embeddings:v1',
+            entries: 1,
+            size: 8,
+          },
+        ]),
+      );
+      expect(formatCacheStats(stats, directory)).toContain(
+        'openai/text-embedding-3-small: 1 entries, 16 B',
+      );
+
+      expect(await cache.clear()).toBe(2);
+      expect((await cache.stats()).entries).toBe(0);
+      expect(await cache.get('openai', 'text-embedding-3-small', 'a')).toBe(
+        undefined,
+      );
+    });
+  });
+
   describe('BaseEmbeddingProvider', () => {
     it('should throw error when initializing an already initialized provider', async () => {
       const provider = new EmbeddingProvider(
@@ -569,6 +962,72 @@ describe('Embedding System', () => {
       );
     });
 
+    it('should embed texts in batches, in order, and report the usage of each request once', async () => {
+      const respond: typeof fetch = (_, init) => {
+        const { input } = JSON.parse(init?.body as string) as {
+          input: string | string[];
+        };
+        const texts = Array.isArray(input) ? input : [input];
+        // Return the embeddings out of order, as the API does not guarantee it
+        return Promise.resolve(
+          createMockResponse({
+            data: texts
+              .map((text, index) => ({
+                embedding: [text.length, index],
+                object: 'embedding',
+                index,
+              }))
+              .reverse(),
+            model: 'test-model',
+            object: 'list',
+            usage: { prompt_tokens: texts.length, total_tokens: texts.length },
+          }),
+        );
+      };
+      mockFetch.mockImplementationOnce(respond).mockImplementationOnce(respond);
+      const config = {
+        provider: 'openai' as const,
+        model: 'test-model',
+        apiKey: 'test-key',
+        batchSize: 2,
+      };
+      const provider = new EmbeddingProvider(config, 'test-key');
+      await provider.initialize(config);
+
+      const results = await provider.generateEmbeddings(['a', 'bb', 'ccc']);
+
+      expect(results.map(({ embedding }) => embedding)).toEqual([
+        [1, 0],
+        [2, 1],
+        [3, 0],
+      ]);
+      expect(
+        mockFetch.mock.calls.map(
+          ([, init]) =>
+            (JSON.parse(init?.body as string) as { input: unknown }).input,
+        ),
+      ).toEqual([['a', 'bb'], 'ccc']);
+      expect(results.map(({ metadata }) => metadata?.usage)).toEqual([
+        { prompt_tokens: 2, total_tokens: 2 },
+        undefined,
+        { prompt_tokens: 1, total_tokens: 1 },
+      ]);
+    });
+
+    it('should split batches by number of texts and estimated tokens', () => {
+      const long = 'word '.repeat(100);
+      expect(splitBatches(['a', 'b', 'c'], 2, 1000)).toEqual([
+        ['a', 'b'],
+        ['c'],
+      ]);
+      expect(splitBatches([long, 'a', long, long], 10, 200)).toEqual([
+        [long, 'a'],
+        [long],
+        [long],
+      ]);
+      expect(splitBatches([], 10, 200)).toEqual([]);
+    });
+
     it('should cleanup provider successfully', async () => {
       const provider = new EmbeddingProvider(
         {
@@ -1,8 +1,19 @@
 import { EvaluationExecutor } from '../evaluation/evaluation-executor';
 import { ScoringService } from '../scoring/scoring.service';
+import { JudgeService } from '../scoring/judge.service';
+import { JudgeScorer } from '../scoring/scorers/judge.scorer';
+import { ScorerRegistry } from '../scoring/scorer-registry';
 import { IAgent } from '../agents/interfaces/agent.interface';
 import { TestCase, MessageRole } from '../core/types/message.types';
 import { EvaluationConfig } from '../evaluation/types/evaluation.types';
+import { TestCaseEvaluation } from '../evaluation/types/test-case.types';
+import { aggregateRuns, passesPolicy } from '../evaluation/run-statistics';
+import { selectTestCases } from '../evaluation/test-selection';
+import { TestCaseLoader } from '../parser/loader';
+import { ConcurrencyLimits, runPool } from '../utils/worker-pool';
+import { InterruptHandler } from '../utils/interrupt';
+import { InterruptedError } from '../evaluation/errors';
+import { Logger } from '../utils/logger';
 import { jest } from '@jest/globals';
 
 // Mock dependencies
@@ -23,6 +34,7 @@ describe('EvaluationExecutor', () => {
     // Setup mock scoring service
     mockScoringService = {
       scoreStrings: jest.fn(),
+      embedStrings: jest.fn(),
     } as unknown as jest.Mocked<ScoringService>;
 
     // Setup mock agent
@@ -76,6 +88,322 @@ describe('EvaluationExecutor', () => {
       expect(result.testCase).toBe(mockTestCase);
     });
 
+    it('should use the judge scorer and keep its rationale when configured', async () => {
+      // Setup
+      const mockJudge = jest.fn<JudgeService['judge']>().mockResolvedValue({
+        score: 0.2,
+        rationale: 'The response contradicts the expected answer.',
+      });
+      const mockJudgeService = {
+        judge: mockJudge,
+      } as unknown as JudgeService;
+      const judgeExecutor = new EvaluationExecutor(
+        mockScoringService,
+        { ...mockConfig, scorer: 'judge' },
+        ScorerRegistry.createDefault(mockScoringService).register(
+          new JudgeScorer(mockJudgeService),
+        ),
+      );
+      mockAgent.sendInput.mockResolvedValue({ response: 'Go away' });
+
+      // Execute
+      const result = await judgeExecutor.executeTestCase(
+        mockAgent,
+        mockTestCase,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0.2);
+      expect(result.rationale).toBe(
+        'The response contradicts the expected answer.',
+      );
+      expect(mockJudge).toHaveBeenCalledWith({
+        conversation: [mockTestCase.messageBlocks[0]],
+        expected: 'Hi there!',
+        actual: 'Go away',
+        signal: expect.any(AbortSignal),
+      });
+      expect(mockScoringService.scoreStrings.mock.calls).toHaveLength(0);
+    });
+
+    it('should reject an unknown default scorer', () => {
+      expect(
+        () =>
+          new EvaluationExecutor(mockScoringService, {
+            ...mockConfig,
+            scorer: 'judge',
+          }),
+      ).toThrow(
+        'Unknown scorer: judge. Available scorers are: semantic, exact, contains, regex, json-schema',
+      );
+    });
+
+    it('should use the scorer selected by the test case', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: 'hi there!' });
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        scorer: 'exact',
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0);
+      expect(result.rationale).toBe(
+        'Response does not exactly match the expected answer',
+      );
+      expect(mockScoringService.scoreStrings.mock.calls).toHaveLength(0);
+    });
+
+    it('should fail test cases that select an unknown scorer', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        scorer: 'missing',
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown scorer: missing');
+    });
+
+    it('should score the best match across alternative answers', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hey!' });
+      mockScoringService.scoreStrings
+        .mockResolvedValueOnce(0.4)
+        .mockResolvedValueOnce(0.9)
+        .mockResolvedValueOnce(0.7);
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        alternatives: ['Hey!', 'Hello!'],
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.score).toBe(0.9);
+      expect(result.matchedAnswer).toBe(1);
+      expect(mockScoringService.scoreStrings.mock.calls).toEqual([
+        ['Hey!', 'Hi there!', expect.any(AbortSignal)],
+        ['Hey!', 'Hey!', expect.any(AbortSignal)],
+        ['Hey!', 'Hello!', expect.any(AbortSignal)],
+      ]);
+    });
+
+    it('should check expected tool calls and score the final answer', async () => {
+      // Setup
+      const sendInput = jest.fn<IAgent['sendInput']>().mockResolvedValue({
+        response: 'It is 18°C in Paris.',
+        toolCalls: [
+          {
+            toolCallId: 'call_a',
+            toolName: 'get_weather',
+            args: { city: 'Paris', unit: 'C' },
+          },
+        ],
+      });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+      const toolTestCase: TestCase = {
+        id: 'test-tools',
+        name: 'test-tools',
+        messageBlocks: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: [
+              {
+                type: 'tool-call',
+                toolCallId: 'call_1',
+                toolName: 'get_weather',
+                args: { city: 'Paris' },
+              },
+            ],
+          },
+          {
+            role: 'tool',
+            content: [
+              {
+                type: 'tool-result',
+                toolCallId: 'call_1',
+                toolName: 'get_weather',
+                result: { temperature: 18 },
+              },
+            ],
+          },
+          { role: 'assistant', content: 'It is 18°C in Paris.' },
+        ],
+      };
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(
+        { ...mockAgent, sendInput },
+        toolTestCase,
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.toolCallResults).toEqual([
+        {
+          expected: expect.objectContaining({
+            toolName: 'get_weather',
+            args: { city: 'Paris' },
+          }),
+          passed: true,
+        },
+      ]);
+      expect(sendInput.mock.calls[0][0].messages).toEqual([
+        { role: 'user', content: 'Weather in Paris?' },
+      ]);
+      expect(mockScoringService.scoreStrings.mock.calls).toEqual([
+        [
+          'It is 18°C in Paris.',
+          'It is 18°C in Paris.',
+          expect.any(AbortSignal),
+        ],
+      ]);
+    });
+
+    it('should pass the test case tools to the agent', async () => {
+      // Setup
+      const sendInput = jest
+        .fn<IAgent['sendInput']>()
+        .mockResolvedValue({ response: 'Hi there!' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+      const tools = {
+        get_time: {
+          parameters: { type: 'object', properties: {} },
+          responses: [{ response: '12:00' }],
+        },
+      };
+
+      // Execute
+      await evaluationExecutor.executeTestCase(
+        { ...mockAgent, sendInput },
+        { ...mockTestCase, tools },
+      );
+
+      // Assert
+      expect(sendInput.mock.calls[0][0].tools).toBe(tools);
+    });
+
+    it('should pass generation settings to the agent, configured settings first', async () => {
+      // Setup
+      const sendInput = jest.fn<IAgent['sendInput']>().mockResolvedValue({
+        response: 'Hi there!',
+        metadata: { generation: { temperature: 0, maxTokens: 50 } },
+      });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+      const executor = new EvaluationExecutor(mockScoringService, {
+        ...mockConfig,
+        generation: { temperature: 0 },
+      });
+
+      // Execute
+      const result = await executor.executeTestCase(
+        { ...mockAgent, sendInput },
+        { ...mockTestCase, generation: { temperature: 1, maxTokens: 50 } },
+      );
+
+      // Assert
+      expect(sendInput.mock.calls[0][0].generation).toEqual({
+        temperature: 0,
+        maxTokens: 50,
+      });
+      expect(result.generation).toEqual({ temperature: 0, maxTokens: 50 });
+    });
+
+    it('should fail when an expected tool call is missing', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: '', toolCalls: [] });
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        id: 'test-tools',
+        name: 'test-tools',
+        messageBlocks: [
+          { role: 'user', content: 'Cancel my order' },
+          {
+            role: 'assistant',
+            content: [
+              {
+                type: 'tool-call',
+                toolCallId: 'call_1',
+                toolName: 'cancel_order',
+                args: {},
+              },
+            ],
+          },
+        ],
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0);
+      expect(result.error).toBe(
+        'Tool call failed: cancel_order {} (Tool was not called)',
+      );
+      expect(mockScoringService.scoreStrings.mock.calls).toHaveLength(0);
+    });
+
+    it('should require assertions to pass in addition to the score', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.95);
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        assertions: [
+          { type: 'contains', value: 'hi' },
+          { type: 'not_contains', value: 'there' },
+        ],
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0.95);
+      expect(result.error).toBe(
+        'Assertion failed: expect not contains: there (Response contains "there")',
+      );
+      expect(result.assertionResults?.map((r) => r.passed)).toEqual([
+        true,
+        false,
+      ]);
+    });
+
+    it('should only check assertions when there is no expected answer', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        id: 'test-assertions',
+        name: 'test-assertions',
+        messageBlocks: [
+          { role: MessageRole.USER, content: 'Hello' },
+          { role: MessageRole.ASSISTANT, content: '' },
+        ],
+        assertions: [
+          { type: 'contains', value: 'hi' },
+          { type: 'regex', value: '/^hi/i' },
+        ],
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.score).toBe(1);
+      expect(result.error).toBeUndefined();
+      expect(mockScoringService.scoreStrings.mock.calls).toHaveLength(0);
+    });
+
     it('should handle test case with insufficient message blocks', async () => {
       // Setup
       const invalidTestCase: TestCase = {
@@ -99,6 +427,70 @@ describe('EvaluationExecutor', () => {
       expect(result.testCase).toBe(invalidTestCase);
     });
 
+    it('should use the threshold of the test case', async () => {
+      // Setup
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi!' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.7);
+
+      // Execute
+      const lenient = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        threshold: 0.6,
+      });
+      const strict = await evaluationExecutor.executeTestCase(
+        mockAgent,
+        mockTestCase,
+      );
+
+      // Assert
+      expect(lenient.success).toBe(true);
+      expect(strict.success).toBe(false);
+    });
+
+    it('should fail when the agent does not respond within the timeout', async () => {
+      // Setup
+      mockAgent.sendInput.mockReturnValue(new Promise(() => {}));
+
+      // Execute
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        timeout: 10,
+      });
+
+      // Assert
+      expect(result.status).toBe('timeout');
+      expect(result.error).toBe('Test case timed out after 10ms');
+      const [input] = mockAgent.sendInput.mock.calls[0];
+      expect(input.signal?.aborted).toBe(true);
+    });
+
+    it('should not count waiting for a provider slot against the timeout', async () => {
+      // Setup
+      const executor = new EvaluationExecutor(mockScoringService, {
+        ...mockConfig,
+        providerConcurrency: { 'test-provider': 1 },
+      });
+      mockAgent.sendInput.mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve({ response: 'Hi there!' }), 30),
+          ),
+      );
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      // Execute
+      const results = await Promise.all([
+        executor.executeTestCase(mockAgent, { ...mockTestCase, timeout: 50 }),
+        executor.executeTestCase(mockAgent, { ...mockTestCase, timeout: 50 }),
+      ]);
+
+      // Assert
+      expect(results.map((result) => result.status)).toEqual([
+        'passed',
+        'passed',
+      ]);
+    });
+
     it('should handle agent errors gracefully', async () => {
       // Setup
       mockAgent.sendInput.mockRejectedValue(new Error('Agent error'));
@@ -163,6 +555,37 @@ describe('EvaluationExecutor', () => {
       expect(results[1].testCase).toBe(mockTestCases[1]);
     });
 
+    it('should apply the concurrency limit of the agent provider', async () => {
+      // Setup
+      const executor = new EvaluationExecutor(mockScoringService, {
+        ...mockConfig,
+        providerConcurrency: { 'test-provider': 1 },
+      });
+      let running = 0;
+      let maxRunning = 0;
+      mockAgent.sendInput.mockImplementation(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return { response: 'Hi there!' };
+      });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      // Execute
+      const results = await executor.executeTestCasesInParallel(
+        mockAgent,
+        mockTestCases,
+        mockConfig.maxConcurrency,
+      );
+
+      // Assert
+      expect(results.map((result) => result.testCaseId)).toEqual([
+        'test-1',
+        'test-2',
+      ]);
+      expect(maxRunning).toBe(1);
+    });
+
     it('should continue execution even if one test case fails', async () => {
       // Setup
       mockAgent.sendInput
@@ -185,6 +608,224 @@ describe('EvaluationExecutor', () => {
       expect(results[0].testCase).toBe(mockTestCases[0]);
       expect(results[1].testCase).toBe(mockTestCases[1]);
     });
+
+    it('should stop the loading indicator when execution throws', async () => {
+      // Setup
+      const stopLoading = jest.spyOn(Logger, 'stopLoading');
+      jest
+        .spyOn(evaluationExecutor, 'executeTestCase')
+        .mockRejectedValue(new Error('Unexpected failure'));
+
+      // Execute
+      await expect(
+        evaluationExecutor.executeTestCasesInParallel(
+          mockAgent,
+          mockTestCases,
+          mockConfig.maxConcurrency,
+        ),
+      ).rejects.toThrow('Unexpected failure');
+
+      // Assert
+      expect(stopLoading).toHaveBeenCalled();
+      stopLoading.mockRestore();
+    });
+  });
+
+  describe('runPool', () => {
+    it('should start the next item as soon as a worker is free and keep item order', async () => {
+      const started: number[] = [];
+      const delays = [50, 5, 5, 5];
+
+      const results = await runPool(delays, 2, async (delay, index) => {
+        started.push(index);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return index * 10;
+      });
+
+      expect(results).toEqual([0, 10, 20, 30]);
+      // The slow first item does not hold up the other slot
+      expect(started).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe('InterruptHandler', () => {
+    it('should stop on the first signal and abort on the second', () => {
+      const handler = new InterruptHandler(['SIGINT']).install();
+      const onSignal = process.listeners('SIGINT').at(-1) as (
+        signal: NodeJS.Signals,
+      ) => void;
+
+      onSignal('SIGINT');
+      expect(handler.stopSignal.aborted).toBe(true);
+      expect(handler.abortSignal.aborted).toBe(false);
+      expect(handler.exitCode).toBe(130);
+
+      onSignal('SIGINT');
+      expect(handler.abortSignal.aborted).toBe(true);
+      expect(handler.abortSignal.reason).toBeInstanceOf(InterruptedError);
+      expect(process.listeners('SIGINT')).not.toContain(onSignal);
+    });
+  });
+
+  describe('ConcurrencyLimits', () => {
+    it('should limit each key separately', async () => {
+      const limits = new ConcurrencyLimits({ openai: 1 });
+      const running = { openai: 0, hebo: 0 };
+      const maxRunning = { openai: 0, hebo: 0 };
+      const task = (key: 'openai' | 'hebo') =>
+        limits.run(key, async () => {
+          running[key]++;
+          maxRunning[key] = Math.max(maxRunning[key], running[key]);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running[key]--;
+        });
+
+      await Promise.all([
+        task('openai'),
+        task('openai'),
+        task('openai'),
+        task('hebo'),
+        task('hebo'),
+      ]);
+
+      expect(maxRunning).toEqual({ openai: 1, hebo: 2 });
+    });
+
+    it('should drop queued tasks when their signal aborts', async () => {
+      const limits = new ConcurrencyLimits({ openai: 1 });
+      const controller = new AbortController();
+      let release = () => {};
+      const first = limits.run(
+        'openai',
+        () => new Promise<void>((resolve) => (release = resolve)),
+      );
+      const queued = jest.fn(() => Promise.resolve());
+      const dropped = limits.run('openai', queued, controller.signal);
+
+      controller.abort(new Error('Stopped'));
+      await expect(dropped).rejects.toThrow('Stopped');
+      release();
+      await first;
+      await limits.run('openai', () => Promise.resolve());
+
+      expect(queued).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('selectTestCases', () => {
+    const testCase = (
+      id: string,
+      values: Partial<TestCase> = {},
+    ): TestCase => ({
+      id,
+      name: id.split('/').pop() ?? id,
+      messageBlocks: [],
+      ...values,
+    });
+    const testCases = [
+      testCase('billing/refunds/Refund window', { tags: ['billing'] }),
+      testCase('billing/invoices/Invoice total', {
+        tags: ['billing', 'slow'],
+      }),
+      testCase('support/Greeting', { tags: ['smoke'] }),
+      testCase('support/Skipped', { tags: ['smoke'], skip: true }),
+    ];
+    const ids = (selected: TestCase[]) => selected.map(({ id }) => id);
+
+    it('should select test cases by tag, id glob and name', () => {
+      expect(ids(selectTestCases(testCases, { tags: ['smoke'] }))).toEqual([
+        'support/Greeting',
+      ]);
+      expect(
+        ids(
+          selectTestCases(testCases, {
+            tags: ['billing'],
+            excludeTags: ['slow'],
+          }),
+        ),
+      ).toEqual(['billing/refunds/Refund window']);
+      expect(
+        ids(selectTestCases(testCases, { filter: ['billing/*'] })),
+      ).toEqual([]);
+      expect(
+        ids(
+          selectTestCases(testCases, { filter: ['billing/**', 'support/G*'] }),
+        ),
+      ).toEqual([
+        'billing/refunds/Refund window',
+        'billing/invoices/Invoice total',
+        'support/Greeting',
+      ]);
+      expect(
+        ids(selectTestCases(testCases, { grep: '^(Invoice|Skip)' })),
+      ).toEqual(['billing/invoices/Invoice total']);
+    });
+
+    it('should only run focused test cases among the selected ones', () => {
+      const focused = [
+        ...testCases,
+        testCase('support/Focused', { tags: ['smoke'], only: true }),
+      ];
+
+      expect(ids(selectTestCases(focused))).toEqual(['support/Focused']);
+      expect(ids(selectTestCases(focused, { tags: ['billing'] }))).toHaveLength(
+        2,
+      );
+    });
+
+    it('should reject an invalid grep pattern', () => {
+      expect(() => selectTestCases(testCases, { grep: '(' })).toThrow(
+        '`--grep` is not a valid regular expression',
+      );
+    });
+  });
+
+  describe('passesPolicy', () => {
+    it('should apply each pass policy', () => {
+      const passed = [false, true, true];
+
+      expect(passesPolicy(passed, 'all')).toBe(false);
+      expect(passesPolicy(passed, 'majority')).toBe(true);
+      expect(passesPolicy(passed, 'pass@1')).toBe(false);
+      expect(passesPolicy(passed, 'pass@2')).toBe(true);
+      expect(passesPolicy(passed, '0.6')).toBe(true);
+      expect(passesPolicy(passed, '0.7')).toBe(false);
+    });
+  });
+
+  describe('aggregateRuns', () => {
+    it('should report the lowest scoring failed run when the test fails', () => {
+      const testCase: TestCase = {
+        id: 'test-1',
+        name: 'test-1',
+        messageBlocks: [],
+      };
+      const run = (score: number, success: boolean): TestCaseEvaluation => ({
+        testCaseId: `test-1 run #${score}`,
+        success,
+        status: success ? 'passed' : 'failed',
+        score,
+        executionTime: 100,
+        response: `response ${score}`,
+        error: success ? undefined : 'Response mismatch',
+        testCase,
+      });
+
+      const result = aggregateRuns(
+        testCase,
+        [run(0.9, true), run(0.2, false), run(0.4, false)],
+        'all',
+      );
+
+      expect(result).toMatchObject({
+        testCaseId: 'test-1',
+        success: false,
+        status: 'failed',
+        response: 'response 0.2',
+        error: 'Passed 1 of 3 runs (pass policy: all); Response mismatch',
+      });
+      expect(result.score).toBeCloseTo(0.5);
+    });
   });
 
   describe('evaluateFromDirectory', () => {
@@ -207,10 +848,11 @@ describe('EvaluationExecutor', () => {
         ],
       };
 
-      const mockResults = [
+      const mockResults: TestCaseEvaluation[] = [
         {
           testCaseId: 'test-1',
           success: true,
+          status: 'passed',
           score: 0.9,
           executionTime: 100,
           response: 'Hi there!',
@@ -219,6 +861,7 @@ describe('EvaluationExecutor', () => {
         {
           testCaseId: 'test-2',
           success: false,
+          status: 'failed',
           score: 0.3,
           executionTime: 100,
           error: 'Response mismatch',
@@ -253,6 +896,339 @@ describe('EvaluationExecutor', () => {
       expect(report.duration).toBeGreaterThan(0);
     });
 
+    it('should combine the runs of a test case under its pass policy', async () => {
+      // Setup
+      const loader = (
+        evaluationExecutor as unknown as { testCaseLoader: TestCaseLoader }
+      ).testCaseLoader;
+      jest.spyOn(loader, 'loadFromPaths').mockResolvedValue({
+        testCases: [
+          {
+            id: 'flaky',
+            name: 'flaky',
+            runs: 3,
+            passPolicy: 'majority',
+            messageBlocks: [
+              { role: MessageRole.USER, content: 'Hello' },
+              { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+            ],
+          },
+        ],
+        errors: [],
+      });
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi!' });
+      mockScoringService.scoreStrings
+        .mockResolvedValueOnce(0.9)
+        .mockResolvedValueOnce(0.5)
+        .mockResolvedValueOnce(0.9);
+
+      // Execute
+      const report = await evaluationExecutor.evaluateFromDirectory(
+        mockAgent,
+        './test-cases',
+      );
+
+      // Assert
+      expect(report.totalTests).toBe(1);
+      expect(report.passedTests).toBe(1);
+      expect(report.results[0].testCase.id).toBe('flaky');
+      expect(report.results[0].score).toBeCloseTo(0.7667, 3);
+      expect(report.results[0].runs).toMatchObject({
+        count: 3,
+        passed: 2,
+        passPolicy: 'majority',
+        min: 0.5,
+        max: 0.9,
+      });
+      expect(report.results[0].runs?.stddev).toBeCloseTo(0.1886, 3);
+    });
+
+    it('should skip test cases and run only focused test cases', async () => {
+      // Setup
+      const loader = (
+        evaluationExecutor as unknown as { testCaseLoader: TestCaseLoader }
+      ).testCaseLoader;
+      const messageBlocks: TestCase['messageBlocks'] = [
+        { role: MessageRole.USER, content: 'Hello' },
+        { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+      ];
+      jest.spyOn(loader, 'loadFromPaths').mockResolvedValue({
+        testCases: [
+          { id: 'plain', name: 'plain', messageBlocks },
+          { id: 'focused', name: 'focused', only: true, messageBlocks },
+          {
+            id: 'skipped',
+            name: 'skipped',
+            only: true,
+            skip: true,
+            messageBlocks,
+          },
+        ],
+        errors: [],
+      });
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+      mockScoringService.scoreStrings.mockResolvedValue(1);
+
+      // Execute
+      const report = await evaluationExecutor.evaluateFromDirectory(
+        mockAgent,
+        './test-cases',
+      );
+
+      // Assert
+      expect(report.results.map((result) => result.testCase.id)).toEqual([
+        'focused',
+      ]);
+    });
+
+    it('should embed the expected answers of semantic test cases up front', async () => {
+      // Setup
+      const loader = (
+        evaluationExecutor as unknown as { testCaseLoader: TestCaseLoader }
+      ).testCaseLoader;
+      jest.spyOn(loader, 'loadFromPaths').mockResolvedValue({
+        testCases: [
+          {
+            id: 'semantic',
+            name: 'semantic',
+            alternatives: ['Hello!'],
+            messageBlocks: [
+              { role: MessageRole.USER, content: 'Hello' },
+              { role: MessageRole.ASSISTANT, content: ' Hi there! ' },
+            ],
+          },
+          {
+            id: 'exact',
+            name: 'exact',
+            scorer: 'exact',
+            messageBlocks: [
+              { role: MessageRole.USER, content: 'Ping' },
+              { role: MessageRole.ASSISTANT, content: 'Pong' },
+            ],
+          },
+        ],
+        errors: [],
+      });
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+      mockScoringService.scoreStrings.mockResolvedValue(1);
+
+      // Execute
+      const report = await evaluationExecutor.evaluateFromDirectory(
+        mockAgent,
+        './test-cases',
+      );
+
+      // Assert
+      expect(mockScoringService.embedStrings.mock.calls).toEqual([
+        [['Hi there!', 'Hello!'], expect.any(AbortSignal)],
+      ]);
+      expect(report.results[0].testCase.answers).toEqual([
+        'Hi there!',
+        'Hello!',
+      ]);
+    });
+
+    it('should time out running and pending test cases when the run times out', async () => {
+      // Setup
+      const executor = new EvaluationExecutor(mockScoringService, {
+        ...mockConfig,
+        maxConcurrency: 1,
+        globalTimeout: 20,
+      });
+      const loader = (executor as unknown as { testCaseLoader: TestCaseLoader })
+        .testCaseLoader;
+      const messageBlocks: TestCase['messageBlocks'] = [
+        { role: MessageRole.USER, content: 'Hello' },
+        { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+      ];
+      jest.spyOn(loader, 'loadFromPaths').mockResolvedValue({
+        testCases: [
+          { id: 'running', name: 'running', messageBlocks },
+          { id: 'pending', name: 'pending', messageBlocks },
+        ],
+        errors: [],
+      });
+      mockAgent.sendInput.mockReturnValue(new Promise(() => {}));
+
+      // Execute
+      const report = await executor.evaluateFromDirectory(
+        mockAgent,
+        './test-cases',
+      );
+
+      // Assert
+      expect(mockAgent.sendInput).toHaveBeenCalledTimes(1);
+      expect(report.failedTests).toBe(2);
+      expect(
+        report.results.map(({ status, error }) => ({ status, error })),
+      ).toEqual([
+        { status: 'timeout', error: 'Run timed out after 20ms' },
+        { status: 'timeout', error: 'Run timed out after 20ms' },
+      ]);
+    });
+
+    it('should time out the test cases when the run times out while embedding the expected answers', async () => {
+      // Setup
+      const executor = new EvaluationExecutor(mockScoringService, {
+        ...mockConfig,
+        globalTimeout: 20,
+      });
+      const loader = (executor as unknown as { testCaseLoader: TestCaseLoader })
+        .testCaseLoader;
+      jest.spyOn(loader, 'loadFromPaths').mockResolvedValue({
+        testCases: [
+          {
+            id: 'semantic',
+            name: 'semantic',
+            messageBlocks: [
+              { role: MessageRole.USER, content: 'Hello' },
+              { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+            ],
+          },
+        ],
+        errors: [],
+      });
+      mockScoringService.embedStrings.mockImplementationOnce(
+        (_, signal) =>
+          new Promise((_, reject) =>
+            signal?.addEventListener('abort', () =>
+              reject(new Error('Embedding aborted')),
+            ),
+          ),
+      );
+
+      // Execute
+      const report = await executor.evaluateFromDirectory(
+        mockAgent,
+        './test-cases',
+      );
+
+      // Assert
+      expect(mockAgent.sendInput).not.toHaveBeenCalled();
+      expect(
+        report.results.map(({ status, error }) => ({ status, error })),
+      ).toEqual([{ status: 'timeout', error: 'Run timed out after 20ms' }]);
+    });
+
+    describe('when interrupted', () => {
+      const messageBlocks: TestCase['messageBlocks'] = [
+        { role: MessageRole.USER, content: 'Hello' },
+        { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+      ];
+      let executor: EvaluationExecutor;
+
+      beforeEach(() => {
+        executor = new EvaluationExecutor(mockScoringService, {
+          ...mockConfig,
+          maxConcurrency: 1,
+        });
+        const loader = (
+          executor as unknown as { testCaseLoader: TestCaseLoader }
+        ).testCaseLoader;
+        jest.spyOn(loader, 'loadFromPaths').mockResolvedValue({
+          testCases: [
+            { id: 'first', name: 'first', messageBlocks },
+            { id: 'second', name: 'second', messageBlocks },
+          ],
+          errors: [],
+        });
+        mockScoringService.scoreStrings.mockResolvedValue(1);
+      });
+
+      it('should finish running test cases and not start new ones when stopped', async () => {
+        // Setup
+        const stop = new AbortController();
+        mockAgent.sendInput.mockImplementation(() => {
+          stop.abort(new InterruptedError('Run interrupted'));
+          return Promise.resolve({ response: 'Hi there!' });
+        });
+
+        // Execute
+        const report = await executor.evaluateFromPaths(
+          mockAgent,
+          ['./test-cases'],
+          true,
+          undefined,
+          { stopSignal: stop.signal },
+        );
+
+        // Assert
+        expect(mockAgent.sendInput).toHaveBeenCalledTimes(1);
+        expect(report.incomplete).toBe(true);
+        expect(report.totalTests).toBe(1);
+        expect(report.results.map((result) => result.testCase.id)).toEqual([
+          'first',
+        ]);
+      });
+
+      it('should leave out the running test cases when aborted', async () => {
+        // Setup
+        const stop = new AbortController();
+        const abort = new AbortController();
+        mockAgent.sendInput.mockImplementation(() => {
+          stop.abort(new InterruptedError('Run interrupted'));
+          setTimeout(() => abort.abort(new InterruptedError('Run aborted')));
+          return new Promise(() => {});
+        });
+
+        // Execute
+        const report = await executor.evaluateFromPaths(
+          mockAgent,
+          ['./test-cases'],
+          true,
+          undefined,
+          { stopSignal: stop.signal, abortSignal: abort.signal },
+        );
+
+        // Assert
+        expect(report.incomplete).toBe(true);
+        expect(report.totalTests).toBe(0);
+        expect(report.results).toEqual([]);
+      });
+
+      it('should keep the results of a resumed report and run the rest', async () => {
+        // Setup
+        mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+        const previous = {
+          testCase: { id: 'first', input: 'Hello', expected: 'Hi there!' },
+          score: 0.5,
+          passed: false,
+          status: 'failed' as const,
+          timestamp: new Date(),
+          response: 'Go away',
+        };
+
+        // Execute
+        const report = await executor.evaluateFromPaths(
+          mockAgent,
+          ['./test-cases'],
+          true,
+          undefined,
+          {
+            previousReport: {
+              totalTests: 1,
+              passedTests: 0,
+              failedTests: 1,
+              passRate: 0,
+              results: [previous],
+              timestamp: new Date(),
+              duration: 60,
+              incomplete: true,
+            },
+          },
+        );
+
+        // Assert
+        expect(mockAgent.sendInput).toHaveBeenCalledTimes(1);
+        expect(report.incomplete).toBeUndefined();
+        expect(report.results[0]).toBe(previous);
+        expect(report.results[1].testCase.id).toBe('second');
+        expect(report.passedTests).toBe(1);
+        expect(report.failedTests).toBe(1);
+        expect(report.duration).toBeGreaterThan(60);
+      });
+    });
+
     it('should handle empty directory gracefully', async () => {
       // Setup - mock the test case loader to return empty results
       jest
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HistoryStore } from '../history/history-store.js';
+import { computeTrend, findFlakyTests, hashConfig } from '../history/trends.js';
+import { HistoryEntry } from '../history/types/history.types.js';
+import { EvaluationReport } from '../evaluation/types/evaluation.types.js';
+
+/**
+ * Creates a run on the given day of January with one result per [id, score, passed] tuple
+ */
+const createRun = (
+  day: number,
+  results: Array<[testId: string, score: number, passed: boolean]>,
+): Omit<HistoryEntry, 'id'> => {
+  const passedTests = results.filter(([, , passed]) => passed).length;
+  const report: EvaluationReport = {
+    totalTests: results.length,
+    passedTests,
+    failedTests: results.length - passedTests,
+    passRate: passedTests / results.length,
+    results: results.map(([testId, score, passed]) => ({
+      testCase: { id: testId, input: 'Hello', expected: 'Hi' },
+      score,
+      passed,
+      timestamp: new Date('2025-01-01T00:00:00.000Z'),
+      response: 'Hi',
+    })),
+    timestamp: new Date('2025-01-01T00:00:00.000Z'),
+    duration: 1,
+  };
+  return {
+    timestamp: new Date(`2025-01-0${day}T00:00:00.000Z`),
+    model: 'gpt-4o',
+    provider: 'openai',
+    commit: 'abc1234def',
+    configHash: 'hash',
+    report,
+  };
+};
+
+describe('History', () => {
+  describe('HistoryStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'hebo-eval-history-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should append runs and load them oldest first', async () => {
+      const store = new HistoryStore(join(directory, 'history'));
+      const stored = await store.append(createRun(2, [['a', 1, true]]));
+      await store.append(createRun(1, [['a', 0.5, false]]));
+      const entries = await store.load();
+
+      expect(stored.id).toMatch(/^2025-01-02T00-00-00-000Z-/);
+      expect(entries.map((entry) => entry.timestamp.toISOString())).toEqual([
+        '2025-01-01T00:00:00.000Z',
+        '2025-01-02T00:00:00.000Z',
+      ]);
+      expect(entries[1]).toEqual(stored);
+    });
+
+    it('should skip invalid history files', async () => {
+      await writeFile(join(directory, 'broken.json'), '{');
+      const store = new HistoryStore(directory);
+
+      expect(await store.load()).toEqual([]);
+      expect(await readdir(directory)).toEqual(['broken.json']);
+    });
+
+    it('should return no runs for a missing directory', async () => {
+      const store = new HistoryStore(join(directory, 'missing'));
+
+      expect(await store.load()).toEqual([]);
+    });
+  });
+
+  describe('trends', () => {
+    const entries: HistoryEntry[] = [
+      createRun(1, [
+        ['stable', 1, true],
+        ['flaky', 0.9, true],
+      ]),
+      createRun(2, [
+        ['stable', 0.9, true],
+        ['flaky', 0.5, false],
+      ]),
+      createRun(3, [
+        ['stable', 0.8, true],
+        ['flaky', 0.9, true],
+        ['new', 0, false],
+      ]),
+    ].map((run, index) => ({ id: String(index + 1), ...run }));
+
+    it('should compute the pass rate and mean score of each run', () => {
+      const trend = computeTrend(entries);
+
+      expect(trend.map((point) => point.passRate)).toEqual([1, 0.5, 2 / 3]);
+      expect(trend[0].meanScore).toBeCloseTo(0.95);
+      expect(trend[2]).toMatchObject({ runId: '3', total: 3, model: 'gpt-4o' });
+    });
+
+    it('should compute the trend of a single test', () => {
+      const trend = computeTrend(entries, 'new');
+
+      expect(trend).toHaveLength(1);
+      expect(trend[0]).toMatchObject({ passRate: 0, meanScore: 0, total: 1 });
+    });
+
+    it('should flag tests whose outcome keeps changing', () => {
+      expect(findFlakyTests(entries)).toEqual([
+        { id: 'flaky', runs: 3, passed: 2, flips: 2 },
+      ]);
+    });
+
+    it('should hash configurations independent of key order', () => {
+      expect(hashConfig({ a: 1, b: { c: 2, d: undefined } })).toBe(
+        hashConfig({ b: { c: 2 }, a: 1 }),
+      );
+      expect(hashConfig({ a: 1 })).not.toBe(hashConfig({ a: 2 }));
+    });
+  });
+});
@@ -4,7 +4,7 @@ import { TestCaseLoader } from '../parser/loader.js';
 import { MessageRole } from '../core/types/message.types.js';
 import { ParseError } from '../parser/errors.js';
 import { writeFile, mkdir, readdir, unlink, rmdir } from 'fs/promises';
-import { join } from 'path';
+import { join, relative } from 'path';
 import { tmpdir } from 'os';
 
 describe('Parser Components', () => {
@@ -290,6 +290,482 @@ It's rainy in New York, NY, today, with a temperature of 59°F, 80% precipitatio
     });
   });
 
+  describe('Metadata', () => {
+    let parser: Parser;
+
+    beforeEach(() => {
+      parser = new Parser();
+    });
+
+    it('should apply the file scorer and let test cases override it', () => {
+      const text = `---
+scorer: contains
+---
+
+# Default Scorer
+user: Where is the refund policy?
+assistant: https://example.com/refunds
+
+# Overridden Scorer
+---
+scorer: exact
+---
+user: What is 2 + 2?
+assistant: 4`;
+
+      const results = parser.parseMultiple(text, 'scorers', 'scorers');
+      expect(results).toHaveLength(2);
+      expect(results[0].scorer).toBe('contains');
+      expect(results[1].scorer).toBe('exact');
+      expect(results[1].messageBlocks).toEqual([
+        { role: MessageRole.USER, content: 'What is 2 + 2?' },
+        { role: MessageRole.ASSISTANT, content: '4' },
+      ]);
+    });
+
+    it('should merge file and test case tools', () => {
+      const text = `---
+fixtures: tools.yaml
+tools:
+  get_weather:
+    description: Gets the weather for a city
+    responses:
+      - args: { city: Paris }
+        response: { temperature: 18 }
+---
+
+# Weather
+---
+tools:
+  get_time:
+    responses:
+      - response: "12:00"
+---
+user: Weather and time in Paris?
+assistant: It is 18°C and 12:00 in Paris.`;
+
+      const [result] = parser.parseMultiple(text, 'tools', 'tools');
+      expect(result.fixtures).toEqual(['tools.yaml']);
+      expect(result.tools).toEqual({
+        get_weather: {
+          description: 'Gets the weather for a city',
+          parameters: { type: 'object', properties: {} },
+          responses: [
+            { args: { city: 'Paris' }, response: { temperature: 18 } },
+          ],
+        },
+        get_time: {
+          parameters: { type: 'object', properties: {} },
+          responses: [{ response: '12:00' }],
+        },
+      });
+    });
+
+    it('should merge file and test case generation settings', () => {
+      const text = `---
+generation:
+  temperature: 0
+  maxTokens: 200
+  providerOptions:
+    openai: { user: evals }
+---
+
+# Creative
+---
+generation:
+  temperature: 1
+  providerOptions:
+    openai: { reasoningEffort: low }
+---
+user: Write a haiku
+assistant: Leaves fall silently`;
+
+      const [result] = parser.parseMultiple(text, 'settings', 'settings');
+      expect(result.generation).toEqual({
+        temperature: 1,
+        maxTokens: 200,
+        providerOptions: { openai: { user: 'evals', reasoningEffort: 'low' } },
+      });
+    });
+
+    it('should reject invalid generation settings', () => {
+      const text = `---
+generation:
+  temperature: 3
+---
+
+# Test
+user: Hello
+assistant: Hi`;
+
+      expect(() => parser.parseMultiple(text, 'settings', 'settings')).toThrow(
+        'Invalid generation value in metadata. temperature',
+      );
+    });
+
+    it('should reject invalid tool definitions', () => {
+      const text = `---
+tools:
+  get_weather:
+    responses: none
+---
+
+# Test
+user: Hello
+assistant: Hi`;
+
+      expect(() => parser.parseMultiple(text, 'tools', 'tools')).toThrow(
+        'Invalid tools value in metadata. get_weather.responses',
+      );
+    });
+
+    it('should read the pass policy from metadata', () => {
+      const text = `---
+runs: 5
+passPolicy: 0.8
+---
+
+# Default Policy
+user: Hello
+assistant: Hi
+
+# Overridden Policy
+---
+passPolicy: pass@3
+---
+user: Hello
+assistant: Hi`;
+
+      const results = parser.parseMultiple(text, 'policy', 'policy');
+      expect(results.map((result) => result.passPolicy)).toEqual([
+        '0.8',
+        'pass@3',
+      ]);
+      expect(() =>
+        parser.parseMultiple(
+          '---\npassPolicy: most\n---\n\n# Test\nuser: Hello\nassistant: Hi',
+          'policy',
+          'policy',
+        ),
+      ).toThrow('Invalid passPolicy value (most) in metadata');
+    });
+
+    it('should read test case metadata, test case values first', () => {
+      const text = `---
+tags: smoke
+threshold: 0.7
+timeout: 5000
+---
+
+# Easy Check
+user: Hello
+assistant: Hi
+
+# Hard Check
+---
+description: Needs an exact refund window
+tags: [billing, smoke]
+threshold: 0.95
+skip: true
+---
+user: Can I get a refund?
+assistant: Within 30 days.
+
+# Focused Check
+---
+only: true
+---
+user: Hello
+assistant: Hi`;
+
+      const [easy, hard, focused] = parser.parseMultiple(
+        text,
+        'metadata',
+        'metadata',
+      );
+      expect(easy).toMatchObject({
+        tags: ['smoke'],
+        threshold: 0.7,
+        timeout: 5000,
+      });
+      expect(easy.description).toBeUndefined();
+      expect(easy.skip).toBeUndefined();
+      expect(hard).toMatchObject({
+        description: 'Needs an exact refund window',
+        tags: ['smoke', 'billing'],
+        threshold: 0.95,
+        skip: true,
+      });
+      expect(focused.only).toBe(true);
+    });
+
+    it.each([
+      ['threshold: 2', 'Invalid threshold value (2) in metadata'],
+      ['tags: [smoke, 1]', 'Invalid tags value (smoke,1) in metadata'],
+      ['skip: yes please', 'Invalid skip value (yes please) in metadata'],
+      ['timeout: -1', 'Invalid timeout value (-1) in metadata'],
+    ])('should reject the invalid metadata %s', (metadata, message) => {
+      expect(() =>
+        parser.parseMultiple(
+          `---\n${metadata}\n---\n\n# Test\nuser: Hello\nassistant: Hi`,
+          'invalid',
+          'invalid',
+        ),
+      ).toThrow(message);
+    });
+
+    it('should reject invalid metadata values', () => {
+      const text = `---
+runs: 0
+---
+
+# Test
+user: Hello
+assistant: Hi`;
+
+      expect(() => parser.parseMultiple(text, 'runs', 'runs')).toThrow(
+        'Invalid runs value (0) in metadata',
+      );
+    });
+  });
+
+  describe('Tool Calls', () => {
+    let parser: Parser;
+
+    beforeEach(() => {
+      parser = new Parser();
+    });
+
+    it('should parse tool use and tool responses into message parts', () => {
+      const text = `user: What's the weather in Paris and London?
+assistant: Let me check.
+tool use: get_weather
+args: {"city": "Paris"}
+tool use: get_weather
+args: {
+  "city": "London"
+}
+tool response: {"temperature": 18}
+tool response: Cloudy, 15°C
+assistant: Paris is 18°C and London is 15°C.`;
+
+      const result = parser.parse(text, 'tools');
+      expect(result.messageBlocks).toEqual([
+        {
+          role: 'user',
+          content: "What's the weather in Paris and London?",
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            {
+              type: 'tool-call',
+              toolCallId: 'call_1',
+              toolName: 'get_weather',
+              args: { city: 'Paris' },
+            },
+            {
+              type: 'tool-call',
+              toolCallId: 'call_2',
+              toolName: 'get_weather',
+              args: { city: 'London' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'get_weather',
+              result: { temperature: 18 },
+            },
+            {
+              type: 'tool-result',
+              toolCallId: 'call_2',
+              toolName: 'get_weather',
+              result: 'Cloudy, 15°C',
+            },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: 'Paris is 18°C and London is 15°C.',
+        },
+      ]);
+    });
+
+    it('should start an assistant message for tool use after a user message', () => {
+      const text = `user: Cancel my order
+tool use: cancel_order`;
+
+      const result = parser.parse(text, 'tools');
+      expect(result.messageBlocks[1]).toEqual({
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool-call',
+            toolCallId: 'call_1',
+            toolName: 'cancel_order',
+            args: {},
+          },
+        ],
+      });
+    });
+
+    it('should reject invalid tool call structures', () => {
+      expect(() =>
+        parser.parse(
+          'user: Hi\ntool use: get_weather\nargs: {city: Paris}',
+          'test',
+        ),
+      ).toThrow('Invalid args for tool use "get_weather"');
+      expect(() =>
+        parser.parse('user: Hi\ntool use: get_weather\nargs: [1]', 'test'),
+      ).toThrow('args must be a JSON object');
+      expect(() => parser.parse('user: Hi\ntool response: 18', 'test')).toThrow(
+        'Tool response found without a matching tool use',
+      );
+      expect(() => parser.parse('user: Hi\nargs: {}', 'test')).toThrow(
+        'Args must directly follow a tool use',
+      );
+    });
+  });
+
+  describe('Alternative Answers', () => {
+    let parser: Parser;
+
+    beforeEach(() => {
+      parser = new Parser();
+    });
+
+    it('should parse alternative answers after the final assistant message', () => {
+      const text = `user: Is the shop open on Sunday?
+assistant: No, we are closed on Sundays.
+assistant (alt): Sorry, the shop is closed on Sunday.
+Assistant (ALT): We open Monday to Saturday.
+Come back tomorrow!
+expect not contains: yes`;
+
+      const result = parser.parse(text, 'alternatives');
+      expect(result.messageBlocks).toHaveLength(2);
+      expect(result.messageBlocks[1].content).toBe(
+        'No, we are closed on Sundays.',
+      );
+      expect(result.alternatives).toEqual([
+        'Sorry, the shop is closed on Sunday.',
+        'We open Monday to Saturday.\nCome back tomorrow!',
+      ]);
+      expect(result.assertions).toEqual([
+        { type: 'not_contains', value: 'yes' },
+      ]);
+    });
+
+    it('should reject alternative answers that are not at the end of the test case', () => {
+      const text = `user: Hello
+assistant: Hi
+assistant (alt): Hey
+user: Bye`;
+
+      expect(() => parser.parse(text, 'test')).toThrow(
+        'Alternative answers must appear after the final assistant message',
+      );
+    });
+
+    it('should reject empty alternative answers', () => {
+      const text = `user: Hello
+assistant: Hi
+assistant (alt):`;
+
+      expect(() => parser.parse(text, 'test')).toThrow(
+        'Alternative answers must not be empty',
+      );
+    });
+  });
+
+  describe('Assertions', () => {
+    let parser: Parser;
+
+    beforeEach(() => {
+      parser = new Parser();
+    });
+
+    it('should parse assertions after the final assistant message', () => {
+      const text = `user: Give me the refund policy as JSON
+assistant: The refund policy is at https://example.com/refunds
+expect contains: https://example.com/refunds
+expect not contains: I don't know
+expect regex: /refunds?/i
+expect json: {
+  "type": "object",
+  "required": ["url"]
+}`;
+
+      const result = parser.parse(text, 'assertions');
+      expect(result.messageBlocks).toEqual([
+        {
+          role: MessageRole.USER,
+          content: 'Give me the refund policy as JSON',
+        },
+        {
+          role: MessageRole.ASSISTANT,
+          content: 'The refund policy is at https://example.com/refunds',
+        },
+      ]);
+      expect(result.assertions).toEqual([
+        { type: 'contains', value: 'https://example.com/refunds' },
+        { type: 'not_contains', value: "I don't know" },
+        { type: 'regex', value: '/refunds?/i' },
+        {
+          type: 'json',
+          value: '{\n  "type": "object",\n  "required": ["url"]\n}',
+        },
+      ]);
+    });
+
+    it('should allow assertions without an expected answer', () => {
+      const text = `user: Hello
+assistant:
+expect contains: hello`;
+
+      const result = parser.parse(text, 'assertions-only');
+      expect(result.messageBlocks[1]).toEqual({
+        role: MessageRole.ASSISTANT,
+        content: '',
+      });
+      expect(result.assertions).toEqual([{ type: 'contains', value: 'hello' }]);
+    });
+
+    it('should reject assertions that are not at the end of the test case', () => {
+      const beforeAssistant = `user: Hello
+expect contains: hi
+assistant: Hi`;
+      const beforeMessage = `user: Hello
+assistant: Hi
+expect contains: hi
+user: Bye`;
+
+      expect(() => parser.parse(beforeAssistant, 'test')).toThrow(
+        'Assertions must appear after the final assistant message',
+      );
+      expect(() => parser.parse(beforeMessage, 'test')).toThrow(
+        'Assertions must appear after the final assistant message',
+      );
+    });
+
+    it('should reject assertions without a value', () => {
+      const text = `user: Hello
+assistant: Hi
+expect contains:`;
+
+      expect(() => parser.parse(text, 'test')).toThrow(
+        'Assertion "expect contains" requires a value',
+      );
+    });
+  });
+
   describe('TestCaseLoader', () => {
     let loader: TestCaseLoader;
     let tempDir: string;
@@ -338,6 +814,74 @@ assistant: I'm good`,
         expect(result.errors).toHaveLength(0);
         expect(result.testCases[0].name).toBe('test1');
         expect(result.testCases[1].name).toBe('test2');
+        expect(result.testCases[0].file).toBe(
+          relative(process.cwd(), testFile1),
+        );
+      });
+
+      it('should add the tools of shared fixtures files', async () => {
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'tools.yaml'),
+            `tools:
+  get_weather:
+    responses:
+      - response: sunny
+  get_time:
+    responses:
+      - response: "12:00"`,
+          ),
+          writeFile(
+            join(tempDir, 'weather.txt'),
+            `---
+fixtures: tools.yaml
+tools:
+  get_weather:
+    responses:
+      - response: rainy
+---
+
+# Weather
+user: Weather?
+assistant: Rainy`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases[0].tools).toEqual({
+          get_weather: {
+            parameters: { type: 'object', properties: {} },
+            responses: [{ response: 'rainy' }],
+          },
+          get_time: {
+            parameters: { type: 'object', properties: {} },
+            responses: [{ response: '12:00' }],
+          },
+        });
+      });
+
+      it('should report missing fixtures files', async () => {
+        const testFile = join(tempDir, 'weather.txt');
+        await writeFile(
+          testFile,
+          `---
+fixtures: missing.yaml
+---
+
+# Weather
+user: Weather?
+assistant: Sunny`,
+        );
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].filePath).toBe(testFile);
+        expect(result.errors[0].message).toContain(
+          'Failed to load tool fixtures from',
+        );
       });
 
       it('should handle invalid test files', async () => {
@@ -361,6 +905,23 @@ assistant: I'm good`,
         expect(result.errors[0].filePath).toBe(nonExistentDir);
       });
 
+      it('should load files and directories once each', async () => {
+        const testFile1 = join(tempDir, 'test1.txt');
+        const testFile2 = join(tempDir, 'test2.txt');
+        await Promise.all([
+          writeFile(testFile1, 'user: Hello\nassistant: Hi there'),
+          writeFile(testFile2, "user: How are you?\nassistant: I'm good"),
+        ]);
+
+        const result = await loader.loadFromPaths([testFile2, tempDir]);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((testCase) => testCase.name)).toEqual([
+          'test2',
+          'test1',
+        ]);
+      });
+
       it('should handle errors according to stopOnError parameter', async () => {
         // Create test files with one invalid file
         const validFile1 = join(tempDir, 'a_valid1.txt');
@@ -1,4 +1,10 @@
 import { ReportGenerator } from '../report/report-generator';
+import { parseReportOutputs, writeReports } from '../report/report-output';
+import { diffWords } from '../report/word-diff';
+import { compareReports, loadReport } from '../report/comparison';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import {
   EvaluationConfig,
   EvaluationReport,
@@ -52,12 +58,11 @@ describe('ReportGenerator', () => {
   describe('generateReport', () => {
     it('should generate markdown report by default', () => {
       const report: string = reportGenerator.generateReport(sampleReport);
-      expect(report).toContain('Test Summary');
-      expect(report).toContain('============');
-      expect(report).toContain('Total: 2');
-      expect(report).toContain('Passed: 1');
-      expect(report).toContain('Failed: 1');
-      expect(report).toContain('Duration: 1.50s');
+      expect(report).toContain('# Evaluation Report');
+      expect(report).toContain(
+        '| Total | Passed | Failed | Pass Rate | Duration |',
+      );
+      expect(report).toContain('| 2 | 1 | 1 | 50.0% | 1.50s |');
     });
 
     it('should generate JSON report when configured', () => {
@@ -95,6 +100,12 @@ describe('ReportGenerator', () => {
       expect(report).toContain('Duration: 1.50s');
     });
 
+    it('should generate the requested format instead of the configured one', () => {
+      const report = reportGenerator.generateReport(sampleReport, 'json');
+
+      expect(JSON.parse(report)).toMatchObject({ totalTests: 2 });
+    });
+
     it('should throw error for unsupported format', () => {
       const invalidConfig: EvaluationConfig = {
         ...defaultConfig,
@@ -111,10 +122,62 @@ describe('ReportGenerator', () => {
   describe('report content', () => {
     it('should include summary statistics in the report', () => {
       const report: string = reportGenerator.generateReport(sampleReport);
-      expect(report).toContain('Total: 2');
-      expect(report).toContain('Passed: 1');
-      expect(report).toContain('Failed: 1');
-      expect(report).toContain('Duration: 1.50s');
+      expect(report).toContain('| 2 | 1 | 1 | 50.0% | 1.50s |');
+    });
+
+    it('should not contain ANSI color codes in the markdown report', () => {
+      const report: string = reportGenerator.generateReport(sampleReport);
+      expect(report).not.toContain('\x1b[');
+    });
+
+    it('should group results by file with score and latency', () => {
+      const report = reportGenerator.generateReport({
+        ...sampleReport,
+        results: [
+          {
+            ...sampleReport.results[0],
+            testCase: { ...sampleReport.results[0].testCase, file: 'math.md' },
+            executionTime: 123.4,
+          },
+          {
+            ...sampleReport.results[1],
+            testCase: {
+              ...sampleReport.results[1].testCase,
+              id: 'a | b',
+              file: 'math.md',
+            },
+          },
+        ],
+      });
+
+      expect(report).toContain('### math.md (1/2 passed)');
+      expect(report).toContain('| ✅ | test-1 | 1.000 | - | 123ms |');
+      expect(report).toContain('| ❌ | a \\| b | 0.000 | - | - |');
+    });
+
+    it('should show failures in collapsible sections', () => {
+      const report = reportGenerator.generateReport({
+        ...sampleReport,
+        results: [
+          {
+            ...sampleReport.results[1],
+            response: 'Use ```code``` here',
+            error: 'Response mismatch',
+          },
+        ],
+      });
+
+      expect(report).toContain('## Failures');
+      expect(report).toContain(
+        '<details>\n<summary>❌ test-2 (score 0.000)</summary>',
+      );
+      expect(report).toContain('**Error:** Response mismatch');
+      expect(report).toContain('**Input**\n\n```text\n2 + 3\n```');
+      expect(report).toContain('**Expected**\n\n```text\n5\n```');
+      expect(report).toContain(
+        '**Actual**\n\n````text\nUse ```code``` here\n````',
+      );
+      expect(report).not.toContain('test-1');
     });
 
     it('should handle reports with errors', () => {
@@ -140,8 +203,374 @@ describe('ReportGenerator', () => {
       };
 
       const report = reportGenerator.generateReport(errorReport);
-      expect(report).toContain('Total: 3');
-      expect(report).toContain('Failed: 2');
+      expect(report).toContain('| 3 | 1 | 2 | 50.0% | 1.50s |');
+      expect(report).toContain('**Error:** Invalid input');
+    });
+
+    it('should mark the report of an interrupted run as incomplete', () => {
+      const incompleteReport = { ...sampleReport, incomplete: true };
+
+      expect(reportGenerator.generateReport(incompleteReport)).toContain(
+        '> **Incomplete:** the run was interrupted',
+      );
+      expect(
+        reportGenerator.generateReport(incompleteReport, 'text'),
+      ).toContain('Incomplete: the run was interrupted');
+      expect(
+        reportGenerator.generateReport(incompleteReport, 'html'),
+      ).toContain('<p class="incomplete">');
+      expect(reportGenerator.generateReport(sampleReport)).not.toContain(
+        'Incomplete',
+      );
+    });
+  });
+
+  describe('run statistics', () => {
+    const multiRunReport: EvaluationReport = {
+      ...sampleReport,
+      results: [
+        {
+          ...sampleReport.results[1],
+          score: 0.6,
+          error: 'Passed 1 of 2 runs (pass policy: all)',
+          runs: {
+            count: 2,
+            passed: 1,
+            passPolicy: 'all',
+            mean: 0.6,
+            min: 0.3,
+            max: 0.9,
+            stddev: 0.3,
+            runs: [
+              { score: 0.9, passed: true },
+              { score: 0.3, passed: false },
+            ],
+          },
+        },
+      ],
+    };
+    const statistics =
+      '1/2 runs passed (pass policy: all), score mean 0.600, min 0.300, max 0.900, stddev 0.300';
+
+    it('should show run statistics in every format', () => {
+      expect(reportGenerator.generateReport(multiRunReport)).toContain(
+        `**Runs:** ${statistics}`,
+      );
+      expect(reportGenerator.generateReport(multiRunReport)).toContain(
+        '| ❌ | test-2 | 0.600 | 1/2 | - |',
+      );
+      expect(reportGenerator.generateReport(multiRunReport, 'text')).toContain(
+        statistics,
+      );
+      expect(reportGenerator.generateReport(multiRunReport, 'junit')).toContain(
+        '<property name="runsPassed" value="1"/>',
+      );
+      expect(reportGenerator.generateReport(multiRunReport, 'html')).toContain(
+        `<strong>Runs:</strong> ${statistics}`,
+      );
+      expect(
+        JSON.parse(reportGenerator.generateReport(multiRunReport, 'json')),
+      ).toMatchObject({ results: [{ runs: { count: 2, passed: 1 } }] });
+    });
+  });
+
+  describe('alternative answers', () => {
+    const matchedReport: EvaluationReport = {
+      ...sampleReport,
+      results: [
+        {
+          ...sampleReport.results[1],
+          testCase: {
+            ...sampleReport.results[1].testCase,
+            expected: 'assistant: 5\nassistant (alt): five',
+            answers: ['5', 'five'],
+          },
+          score: 0.4,
+          matchedAnswer: 1,
+        },
+      ],
+    };
+    const matched = 'assistant (alt) #1: five';
+
+    it('should show the matched alternative in every format', () => {
+      expect(reportGenerator.generateReport(matchedReport)).toContain(
+        `**Best Match**\n\n\`\`\`text\n${matched}\n\`\`\``,
+      );
+      expect(reportGenerator.generateReport(matchedReport, 'text')).toContain(
+        `test-2${'\x1b[0m'}: ${matched}`,
+      );
+      expect(reportGenerator.generateReport(matchedReport, 'junit')).toContain(
+        `Best match:\n${matched}`,
+      );
+      expect(reportGenerator.generateReport(matchedReport, 'html')).toContain(
+        `<h3>Best Match</h3>\n<pre>${matched}</pre>`,
+      );
+      expect(
+        JSON.parse(reportGenerator.generateReport(matchedReport, 'json')),
+      ).toMatchObject({ results: [{ matchedAnswer: 1 }] });
+    });
+  });
+
+  describe('junit report', () => {
+    it('should create a test suite per file with failures and errors', () => {
+      const report = reportGenerator.generateReport(
+        {
+          ...sampleReport,
+          totalTests: 3,
+          results: [
+            {
+              ...sampleReport.results[0],
+              testCase: {
+                ...sampleReport.results[0].testCase,
+                file: 'math.md',
+              },
+              status: 'passed',
+              executionTime: 1500,
+            },
+            {
+              ...sampleReport.results[1],
+              testCase: {
+                ...sampleReport.results[1].testCase,
+                file: 'math.md',
+              },
+              status: 'failed',
+              error: 'Response mismatch',
+            },
+            {
+              ...sampleReport.results[1],
+              testCase: {
+                id: 'greeting <1>',
+                file: 'chat.md',
+                input: 'Hi',
+                expected: 'Hello',
+              },
+              status: 'error',
+              error: 'Request failed: "timeout"',
+              response: '',
+            },
+          ],
+        },
+        'junit',
+      );
+
+      expect(report).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+      expect(report).toContain(
+        '<testsuites name="hebo-eval" tests="3" failures="1" errors="1"',
+      );
+      expect(report).toContain(
+        '<testsuite name="math.md" tests="2" failures="1" errors="0" time="1.500">',
+      );
+      expect(report).toContain(
+        '<testcase name="test-1" classname="math.md" time="1.500">',
+      );
+      expect(report).toContain(
+        '<property name="score" value="0.000"/>\n        <property name="threshold" value="0.8"/>',
+      );
+      expect(report).toContain(
+        '<failure message="Response mismatch" type="failure">',
+      );
+      expect(report).toContain('<system-out>6</system-out>');
+      expect(report).toContain(
+        '<testcase name="greeting &lt;1&gt;" classname="chat.md" time="0.000">',
+      );
+      expect(report).toContain(
+        '<error message="Request failed: &quot;timeout&quot;" type="error">',
+      );
+      expect(report.trim().endsWith('</testsuites>')).toBe(true);
+    });
+  });
+
+  describe('html report', () => {
+    it('should generate a self-contained document with results and diffs', () => {
+      const report = reportGenerator.generateReport(
+        {
+          ...sampleReport,
+          results: [
+            sampleReport.results[0],
+            {
+              ...sampleReport.results[1],
+              testCase: {
+                ...sampleReport.results[1].testCase,
+                id: '<b>sum</b>',
+                expected: 'assistant: The answer is 5',
+                answers: ['The answer is 5'],
+              },
+              response: 'The answer is 6',
+            },
+          ],
+        },
+        'html',
+      );
+
+      expect(report).toMatch(/^<!DOCTYPE html>/);
+      expect(report).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+      expect(report).toContain('<div class="value">50.0%</div>');
+      expect(report).toContain('<table id="results">');
+      expect(report).toContain('<a href="#test-1">&lt;b&gt;sum&lt;/b&gt;</a>');
+      expect(report).toContain('<pre>The answer is <del>5</del></pre>');
+      expect(report).toContain('<pre>The answer is <ins>6</ins></pre>');
+      expect(report).toContain('<div class="histogram">');
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should keep common words and mark removed and added words', () => {
+      expect(diffWords('the quick brown fox', 'the slow brown fox')).toEqual([
+        { type: 'equal', text: 'the ' },
+        { type: 'removed', text: 'quick' },
+        { type: 'added', text: 'slow' },
+        { type: 'equal', text: ' brown fox' },
+      ]);
+    });
+
+    it('should handle empty texts', () => {
+      expect(diffWords('', 'new text')).toEqual([
+        { type: 'added', text: 'new text' },
+      ]);
+      expect(diffWords('', '')).toEqual([]);
+    });
+  });
+
+  describe('report outputs', () => {
+    it('should parse formats with and without files', () => {
+      expect(
+        parseReportOutputs(['json:out/report.json', 'markdown:summary.md']),
+      ).toEqual([
+        { format: 'json', file: 'out/report.json' },
+        { format: 'markdown', file: 'summary.md' },
+      ]);
+      expect(parseReportOutputs(['text'])).toEqual([
+        { format: 'text', file: undefined },
+      ]);
+    });
+
+    it('should write a format without a file to the output file', () => {
+      expect(
+        parseReportOutputs(['json', 'markdown:summary.md'], 'report.json'),
+      ).toEqual([
+        { format: 'json', file: 'report.json' },
+        { format: 'markdown', file: 'summary.md' },
+      ]);
+    });
+
+    it('should infer the format from the output file extension', () => {
+      expect(parseReportOutputs([], 'report.json')).toEqual([
+        { format: 'json', file: 'report.json' },
+      ]);
+      expect(parseReportOutputs([], 'summary.md')).toEqual([
+        { format: 'markdown', file: 'summary.md' },
+      ]);
+    });
+
+    it('should reject unknown formats and ambiguous outputs', () => {
+      expect(() => parseReportOutputs(['xml'])).toThrow(
+        '`--format` must be one of: json, markdown, text, junit, html',
+      );
+      expect(() =>
+        parseReportOutputs(['json', 'markdown'], 'report.json'),
+      ).toThrow('`--output` can only be used with a single format');
+    });
+
+    it('should write each report to its file', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'hebo-eval-report-'));
+      try {
+        await writeReports(reportGenerator, sampleReport, [
+          { format: 'json', file: join(directory, 'nested', 'report.json') },
+          { format: 'text', file: join(directory, 'report.txt') },
+        ]);
+
+        const json = await readFile(
+          join(directory, 'nested', 'report.json'),
+          'utf-8',
+        );
+        expect(JSON.parse(json)).toMatchObject({ passedTests: 1 });
+        expect(
+          await readFile(join(directory, 'report.txt'), 'utf-8'),
+        ).toContain('Total: 2');
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('comparison', () => {
+    const withResults = (
+      results: Array<[id: string, score: number, passed: boolean]>,
+    ): EvaluationReport => ({
+      ...sampleReport,
+      results: results.map(([id, score, passed]) => ({
+        ...sampleReport.results[0],
+        testCase: { id, input: '', expected: '' },
+        score,
+        passed,
+      })),
+    });
+
+    it('should report newly failing, newly passing, changed, added and removed tests', () => {
+      const baseline = withResults([
+        ['stable', 0.9, true],
+        ['breaks', 0.9, true],
+        ['fixed', 0.5, false],
+        ['drops', 0.99, true],
+        ['wobbles', 0.9, true],
+        ['gone', 1, true],
+      ]);
+      const current = withResults([
+        ['stable', 0.9, true],
+        ['breaks', 0.4, false],
+        ['fixed', 0.95, true],
+        ['drops', 0.85, true],
+        ['wobbles', 0.88, true],
+        ['new', 1, true],
+      ]);
+
+      const comparison = compareReports(baseline, current, 0.05);
+
+      expect(comparison.newlyFailing.map((change) => change.id)).toEqual([
+        'breaks',
+      ]);
+      expect(comparison.newlyPassing.map((change) => change.id)).toEqual([
+        'fixed',
+      ]);
+      expect(comparison.scoreChanges).toEqual([
+        {
+          id: 'drops',
+          baselineScore: 0.99,
+          currentScore: 0.85,
+          delta: expect.closeTo(-0.14, 5) as number,
+        },
+      ]);
+      expect(comparison.added).toEqual(['new']);
+      expect(comparison.removed).toEqual(['gone']);
+      expect(comparison.hasRegressions).toBe(true);
+    });
+
+    it('should not report regressions when scores only improve', () => {
+      const comparison = compareReports(
+        withResults([['test', 0.5, false]]),
+        withResults([['test', 0.9, true]]),
+        0.05,
+      );
+
+      expect(comparison.hasRegressions).toBe(false);
+    });
+
+    it('should load a JSON report written by the report generator', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'hebo-eval-report-'));
+      try {
+        const file = join(directory, 'report.json');
+        await writeFile(
+          file,
+          reportGenerator.generateReport(sampleReport, 'json'),
+        );
+
+        expect(await loadReport(file)).toEqual(sampleReport);
+        await expect(
+          loadReport(join(directory, 'missing.json')),
+        ).rejects.toThrow('Failed to load report from');
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
     });
   });
 });
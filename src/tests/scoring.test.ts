@@ -3,6 +3,17 @@ import { ScoringService } from '../scoring/scoring.service.js';
 import { IEmbeddingProvider } from '../embeddings/interfaces/embedding-provider.interface.js';
 import { EmbeddingResponse } from '../embeddings/types/embedding.types.js';
 import { calculateCosineSimilarity } from '../scoring/utils/cosine-similarity.js';
+import { JudgeService } from '../scoring/judge.service.js';
+import { ScorerRegistry } from '../scoring/scorer-registry.js';
+import { ExactScorer } from '../scoring/scorers/exact.scorer.js';
+import { ContainsScorer } from '../scoring/scorers/contains.scorer.js';
+import { RegexScorer } from '../scoring/scorers/regex.scorer.js';
+import { JsonSchemaScorer } from '../scoring/scorers/json-schema.scorer.js';
+import { SemanticScorer } from '../scoring/scorers/semantic.scorer.js';
+import { evaluateAssertions } from '../scoring/assertions.js';
+import { evaluateToolCalls, matchesArgs } from '../scoring/tool-calls.js';
+import { IAgent } from '../agents/interfaces/agent.interface.js';
+import { AgentInput, AgentOutput } from '../agents/types/agent.types.js';
 
 describe('Cosine Similarity', () => {
   it('should calculate correct cosine similarity for identical vectors', () => {
@@ -50,6 +61,7 @@ describe('ScoringService', () => {
       getConfig: jest.fn(),
       initialize: jest.fn(),
       generateEmbedding: jest.fn(),
+      generateEmbeddings: jest.fn(),
       validateConfig: jest.fn(),
       cleanup: jest.fn(),
     } as jest.Mocked<IEmbeddingProvider>;
@@ -74,23 +86,115 @@ describe('ScoringService', () => {
       },
     };
 
-    mockEmbeddingProvider.generateEmbedding
-      .mockImplementationOnce(() => Promise.resolve(mockEmbeddingA))
-      .mockImplementationOnce(() => Promise.resolve(mockEmbeddingB));
+    mockEmbeddingProvider.generateEmbeddings.mockImplementationOnce(() =>
+      Promise.resolve([mockEmbeddingA, mockEmbeddingB]),
+    );
 
-    const score = await scoringService.scoreStrings('hello', 'hello');
+    const score = await scoringService.scoreStrings('hello', 'world');
     expect(score).toBe(1); // Identical vectors should have similarity of 1
-    expect(mockEmbeddingProvider.generateEmbedding.mock.calls.length).toBe(2);
+    expect(mockEmbeddingProvider.generateEmbeddings.mock.calls).toEqual([
+      [['hello', 'world']],
+    ]);
   });
 
-  it('should handle embedding generation errors', async () => {
-    mockEmbeddingProvider.generateEmbedding.mockImplementationOnce(() =>
-      Promise.reject(new Error('Embedding generation failed')),
+  it('should embed strings ahead of scoring in a sorted batch, and batch concurrent scores', async () => {
+    mockEmbeddingProvider.generateEmbeddings.mockImplementation((texts) =>
+      Promise.resolve(texts.map((text) => ({ embedding: [text.length, 1] }))),
+    );
+
+    await scoringService.embedStrings(['expected two', 'expected one']);
+    const scores = await Promise.all([
+      scoringService.scoreStrings('actual', 'expected one'),
+      scoringService.scoreStrings('actual', 'expected two'),
+      scoringService.scoreStrings('other', 'expected one'),
+    ]);
+
+    expect(scores).toHaveLength(3);
+    expect(mockEmbeddingProvider.generateEmbeddings.mock.calls).toEqual([
+      [['expected one', 'expected two']],
+      [['actual', 'other']],
+    ]);
+  });
+
+  it('should send a batch right away when enough strings are collected', async () => {
+    mockEmbeddingProvider.generateEmbeddings.mockImplementation((texts) =>
+      Promise.resolve(texts.map((text) => ({ embedding: [text.length, 1] }))),
+    );
+    const texts = Array.from({ length: 101 }, (_, index) => `text ${index}`);
+
+    await Promise.all(
+      texts.map((text) => scoringService.scoreStrings(text, text)),
+    );
+
+    expect(
+      mockEmbeddingProvider.generateEmbeddings.mock.calls.map(
+        ([batch]) => batch.length,
+      ),
+    ).toEqual([100, 1]);
+  });
+
+  it('should reject every string of a batch when embeddings are missing', async () => {
+    mockEmbeddingProvider.generateEmbeddings.mockResolvedValueOnce([
+      { embedding: [1, 2, 3] },
+    ]);
+
+    await expect(scoringService.embedStrings(['a', 'b'])).rejects.toThrow(
+      'Expected 2 embeddings, got 1',
+    );
+  });
+
+  it('should keep only the most recently used embeddings in memory', async () => {
+    scoringService = new ScoringService(mockEmbeddingProvider, undefined, 2);
+    mockEmbeddingProvider.generateEmbeddings.mockImplementation((texts) =>
+      Promise.resolve(texts.map((text) => ({ embedding: [text.length, 1] }))),
     );
 
+    await scoringService.scoreStrings('a', 'bb');
+    await scoringService.scoreStrings('a', 'ccc');
+    await scoringService.scoreStrings('a', 'bb');
+
+    expect(mockEmbeddingProvider.generateEmbeddings.mock.calls).toEqual([
+      [['a', 'bb']],
+      [['ccc']],
+      [['bb']],
+    ]);
+  });
+
+  it('should keep the strings embedded ahead of scoring beyond the most recently used', async () => {
+    scoringService = new ScoringService(mockEmbeddingProvider, undefined, 1);
+    mockEmbeddingProvider.generateEmbeddings.mockImplementation((texts) =>
+      Promise.resolve(texts.map((text) => ({ embedding: [text.length, 1] }))),
+    );
+
+    await scoringService.embedStrings(['x', 'yy', 'zzz']);
+    await scoringService.scoreStrings('a', 'x');
+    await scoringService.scoreStrings('bb', 'yy');
+    await scoringService.scoreStrings('ccc', 'zzz');
+
+    expect(mockEmbeddingProvider.generateEmbeddings.mock.calls).toEqual([
+      [['x', 'yy', 'zzz']],
+      [['a']],
+      [['bb']],
+      [['ccc']],
+    ]);
+  });
+
+  it('should handle embedding generation errors', async () => {
+    mockEmbeddingProvider.generateEmbeddings
+      .mockImplementationOnce(() =>
+        Promise.reject(new Error('Embedding generation failed')),
+      )
+      .mockImplementation((texts) =>
+        Promise.resolve(texts.map(() => ({ embedding: [1, 2, 3] }))),
+      );
+
     await expect(scoringService.scoreStrings('hello', 'world')).rejects.toThrow(
       'Failed to calculate similarity score: Embedding generation failed',
     );
+    // Failed embeddings are requested again
+    await expect(scoringService.scoreStrings('hello', 'world')).resolves.toBe(
+      1,
+    );
   });
 
   it('should handle invalid embedding responses', async () => {
@@ -110,12 +214,310 @@ describe('ScoringService', () => {
       },
     };
 
-    mockEmbeddingProvider.generateEmbedding
-      .mockImplementationOnce(() => Promise.resolve(mockEmbeddingA))
-      .mockImplementationOnce(() => Promise.resolve(mockEmbeddingB));
+    mockEmbeddingProvider.generateEmbeddings.mockImplementationOnce(() =>
+      Promise.resolve([mockEmbeddingA, mockEmbeddingB]),
+    );
 
     await expect(scoringService.scoreStrings('hello', 'world')).rejects.toThrow(
       'Failed to calculate similarity score: Vectors must have the same dimensions',
     );
   });
 });
+
+describe('JudgeService', () => {
+  let mockSendInput: jest.Mock<(input: AgentInput) => Promise<AgentOutput>>;
+  let judgeService: JudgeService;
+
+  beforeEach(() => {
+    mockSendInput = jest.fn<(input: AgentInput) => Promise<AgentOutput>>();
+    const mockJudge = {
+      getConfig: jest.fn(),
+      sendInput: mockSendInput,
+      cleanup: jest.fn(),
+    } as unknown as IAgent;
+
+    judgeService = new JudgeService(mockJudge);
+  });
+
+  it('should return the score and rationale from the judge verdict', async () => {
+    mockSendInput.mockResolvedValueOnce({
+      response:
+        'Verdict: {"score": 0.1, "rationale": "The answer negates the expected fact."}',
+    });
+
+    const result = await judgeService.judge({
+      conversation: [{ role: 'user', content: 'What is the answer?' }],
+      expected: 'The answer is 42',
+      actual: 'The answer is not 42',
+    });
+
+    expect(result).toEqual({
+      score: 0.1,
+      rationale: 'The answer negates the expected fact.',
+    });
+  });
+
+  it('should send the conversation, expected and actual answers to the judge', async () => {
+    mockSendInput.mockResolvedValueOnce({
+      response: '{"score": 1, "rationale": "Equivalent."}',
+    });
+
+    await judgeService.judge({
+      conversation: [{ role: 'user', content: 'What is the answer?' }],
+      expected: 'The answer is 42',
+      actual: 'It is 42',
+    });
+
+    const input = mockSendInput.mock.calls[0][0];
+    expect(input.messages[0].role).toBe('system');
+    const prompt = input.messages[1].content as string;
+    expect(prompt).toContain('user: What is the answer?');
+    expect(prompt).toContain('The answer is 42');
+    expect(prompt).toContain('It is 42');
+    expect(input.generation).toEqual({ temperature: 0 });
+  });
+
+  it('should send the configured generation settings to the judge', async () => {
+    const mockJudge = { sendInput: mockSendInput } as unknown as IAgent;
+    judgeService = new JudgeService(mockJudge, {
+      temperature: 0.2,
+      seed: 7,
+    });
+    mockSendInput.mockResolvedValueOnce({
+      response: '{"score": 1, "rationale": "Equivalent."}',
+    });
+
+    await judgeService.judge({ conversation: [], expected: 'a', actual: 'a' });
+
+    expect(mockSendInput.mock.calls[0][0].generation).toEqual({
+      temperature: 0.2,
+      seed: 7,
+    });
+  });
+
+  it('should reject verdicts with an out of range score', async () => {
+    mockSendInput.mockResolvedValueOnce({
+      response: '{"score": 7, "rationale": "Great."}',
+    });
+
+    await expect(
+      judgeService.judge({ conversation: [], expected: 'a', actual: 'b' }),
+    ).rejects.toThrow('Judge returned an invalid verdict');
+  });
+
+  it('should reject output without a JSON verdict', async () => {
+    mockSendInput.mockResolvedValueOnce({ response: 'Looks good to me' });
+
+    await expect(
+      judgeService.judge({ conversation: [], expected: 'a', actual: 'b' }),
+    ).rejects.toThrow('Judge returned an invalid verdict: Looks good to me');
+  });
+
+  it('should wrap judge request errors', async () => {
+    mockSendInput.mockRejectedValueOnce(new Error('Rate limited'));
+
+    await expect(
+      judgeService.judge({ conversation: [], expected: 'a', actual: 'b' }),
+    ).rejects.toThrow('Failed to get judge verdict: Rate limited');
+  });
+});
+
+describe('Scorers', () => {
+  const score = (
+    scorer: { score: ExactScorer['score'] },
+    actual: string,
+    expected: string,
+  ) => scorer.score({ conversation: [], actual, expected });
+
+  it('should score exact matches ignoring surrounding whitespace', async () => {
+    const scorer = new ExactScorer();
+    expect((await score(scorer, ' 42\n', '42')).score).toBe(1);
+    expect((await score(scorer, 'The answer is 42', '42')).score).toBe(0);
+  });
+
+  it('should score opposite embeddings 0', async () => {
+    const provider = {
+      generateEmbeddings: (texts: string[]) =>
+        Promise.resolve(
+          texts.map((text) => ({
+            embedding: text === 'yes' ? [1, 0] : [-1, 0],
+          })),
+        ),
+    } as unknown as IEmbeddingProvider;
+    const scorer = new SemanticScorer(new ScoringService(provider));
+    expect((await score(scorer, 'yes', 'no')).score).toBe(0);
+  });
+
+  it('should score case-insensitive substring matches', async () => {
+    const scorer = new ContainsScorer();
+    expect(
+      (await score(scorer, 'See our Refund Policy', 'refund policy')).score,
+    ).toBe(1);
+    const result = await score(scorer, 'No idea', 'refund policy');
+    expect(result.score).toBe(0);
+    expect(result.rationale).toBe('Response does not contain "refund policy"');
+  });
+
+  it('should score regular expression matches', async () => {
+    const scorer = new RegexScorer();
+    expect((await score(scorer, 'Order #1234', '#\\d{4}')).score).toBe(1);
+    expect((await score(scorer, 'ORDER', '/order/i')).score).toBe(1);
+    expect((await score(scorer, 'ORDER', '/order/')).score).toBe(0);
+    await expect(score(scorer, 'x', '(')).rejects.toThrow(
+      'Invalid regular expression',
+    );
+  });
+
+  it('should validate JSON responses against a JSON Schema', async () => {
+    const scorer = new JsonSchemaScorer();
+    const schema = JSON.stringify({
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    });
+
+    expect(
+      (await score(scorer, '```json\n{"city": "Paris"}\n```', schema)).score,
+    ).toBe(1);
+
+    const missing = await score(scorer, '{"town": "Paris"}', schema);
+    expect(missing.score).toBe(0);
+    expect(missing.rationale).toContain("must have required property 'city'");
+
+    const invalid = await score(scorer, 'Paris', schema);
+    expect(invalid.score).toBe(0);
+    expect(invalid.rationale).toContain('Response is not valid JSON');
+
+    await expect(score(scorer, '{}', 'not a schema')).rejects.toThrow(
+      'Expected answer is not a valid JSON Schema',
+    );
+  });
+
+  it('should reuse schemas with an $id across scores', async () => {
+    const scorer = new JsonSchemaScorer();
+    const schema = JSON.stringify({
+      $id: 'https://example.com/city.json',
+      type: 'object',
+      required: ['city'],
+    });
+    const other = JSON.stringify({
+      $id: 'https://example.com/city.json',
+      type: 'object',
+      required: ['town'],
+    });
+
+    expect((await score(scorer, '{"city": "Paris"}', schema)).score).toBe(1);
+    expect((await score(scorer, '{"city": "Paris"}', schema)).score).toBe(1);
+    expect((await score(scorer, '{"city": "Paris"}', other)).score).toBe(0);
+  });
+});
+
+describe('ScorerRegistry', () => {
+  it('should register the built-in scorers by default', () => {
+    const registry = ScorerRegistry.createDefault(
+      new ScoringService({} as IEmbeddingProvider),
+    );
+    expect(registry.getNames()).toEqual([
+      'semantic',
+      'exact',
+      'contains',
+      'regex',
+      'json-schema',
+    ]);
+  });
+
+  it('should throw for unknown scorers', () => {
+    const registry = new ScorerRegistry().register(new ExactScorer());
+    expect(registry.get('exact')).toBeInstanceOf(ExactScorer);
+    expect(() => registry.get('judge')).toThrow(
+      'Unknown scorer: judge. Available scorers are: exact',
+    );
+  });
+});
+
+describe('evaluateAssertions', () => {
+  it('should check every assertion against the response', async () => {
+    const results = await evaluateAssertions('{"url": "/refunds"}', [
+      { type: 'contains', value: '/REFUNDS' },
+      { type: 'not_contains', value: 'refunds' },
+      { type: 'regex', value: '"url":\\s*"' },
+      { type: 'json', value: '' },
+      { type: 'json', value: '{"type": "array"}' },
+    ]);
+
+    expect(results.map((result) => result.passed)).toEqual([
+      true,
+      false,
+      true,
+      true,
+      false,
+    ]);
+    expect(results[1].message).toBe('Response contains "refunds"');
+    expect(results[4].message).toContain('must be array');
+  });
+
+  it('should check JSON assertions with the same $id repeatedly', async () => {
+    const value = JSON.stringify({
+      $id: 'https://example.com/refund.json',
+      type: 'object',
+      required: ['url'],
+    });
+    for (let run = 0; run < 2; run++) {
+      const [result] = await evaluateAssertions('{"url": "/refunds"}', [
+        { type: 'json', value },
+      ]);
+      expect(result.passed).toBe(true);
+    }
+  });
+
+  it('should fail JSON assertions for non-JSON responses', async () => {
+    const [result] = await evaluateAssertions('Not JSON', [
+      { type: 'json', value: '' },
+    ]);
+    expect(result.passed).toBe(false);
+    expect(result.message).toContain('Response is not valid JSON');
+  });
+});
+
+describe('evaluateToolCalls', () => {
+  it('should match expected arguments as a subset of the actual ones', () => {
+    expect(matchesArgs({ city: 'Paris' }, { city: 'Paris', unit: 'C' })).toBe(
+      true,
+    );
+    expect(matchesArgs({ city: 'Paris' }, { city: 'London' })).toBe(false);
+    expect(matchesArgs({ tags: ['a'] }, { tags: ['a', 'b'] })).toBe(false);
+    expect(matchesArgs({ filter: { id: 1 } }, { filter: { id: 1 } })).toBe(
+      true,
+    );
+  });
+
+  it('should check the expected tool calls in order', () => {
+    const actual = [
+      { toolName: 'search', args: { query: 'refunds' } },
+      { toolName: 'get_weather', args: { city: 'Paris', unit: 'C' } },
+    ];
+
+    const results = evaluateToolCalls(
+      [
+        { toolName: 'get_weather', args: { city: 'Paris' } },
+        { toolName: 'search', args: { query: 'refunds' } },
+        { toolName: 'get_weather', args: { city: 'London' } },
+        { toolName: 'cancel_order', args: {} },
+      ],
+      actual,
+    );
+
+    expect(results.map((result) => result.passed)).toEqual([
+      true,
+      false,
+      false,
+      false,
+    ]);
+    expect(results.map((result) => result.message)).toEqual([
+      undefined,
+      'Tool was called out of order',
+      'Tool was called with different args: {"city":"Paris","unit":"C"}',
+      'Tool was not called',
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { createMockTools, resolveMockResponse } from '../tools/mock-tools.js';
+import { ToolDefinitionSchema } from '../tools/types/tool.types.js';
+import { Logger } from '../utils/logger.js';
+
+describe('Mock Tools', () => {
+  const definition = ToolDefinitionSchema.parse({
+    description: 'Gets the weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    },
+    responses: [
+      { args: { city: 'Paris' }, response: { temperature: 18 } },
+      { args: { city: '/^lon/i' }, response: { temperature: 15 } },
+      { response: 'Unknown city' },
+    ],
+  });
+
+  it('should return the first response whose args pattern matches', () => {
+    expect(
+      resolveMockResponse('get_weather', definition, {
+        city: 'Paris',
+        unit: 'C',
+      }),
+    ).toEqual({ temperature: 18 });
+    expect(
+      resolveMockResponse('get_weather', definition, { city: 'London' }),
+    ).toEqual({ temperature: 15 });
+    expect(
+      resolveMockResponse('get_weather', definition, { city: 'Berlin' }),
+    ).toBe('Unknown city');
+  });
+
+  it('should return an error when no response matches', () => {
+    Logger.configure({ verbose: false });
+    const result = resolveMockResponse(
+      'get_weather',
+      { ...definition, responses: [] },
+      { city: 'Berlin' },
+    );
+    expect(result).toEqual({
+      error:
+        'No mock response for tool get_weather with args {"city":"Berlin"}',
+    });
+  });
+
+  it('should create tools that execute against the mocks', async () => {
+    const tools = createMockTools({ get_weather: definition });
+
+    expect(tools.get_weather.description).toBe('Gets the weather for a city');
+    await expect(
+      tools.get_weather.execute?.(
+        { city: 'Paris' },
+        { toolCallId: 'call_1', messages: [] },
+      ),
+    ).resolves.toEqual({ temperature: 18 });
+  });
+});
@@ -0,0 +1,28 @@
+import { readFile } from 'fs/promises';
+import yaml from 'js-yaml';
+import { ToolDefinitions, ToolFixturesSchema } from './types/tool.types.js';
+
+/**
+ * Loads tool definitions from a shared fixtures file
+ *
+ * Fixtures files are YAML (or JSON) with a `tools` map in the same format as
+ * the `tools` key of a test file metadata block.
+ *
+ * @param filePath The path to the fixtures file
+ * @returns Promise that resolves with the tool definitions
+ * @throws Error if the file cannot be read or is not valid
+ */
+export async function loadToolFixtures(
+  filePath: string,
+): Promise<ToolDefinitions> {
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    return ToolFixturesSchema.parse(yaml.load(content)).tools;
+  } catch (error) {
+    throw new Error(
+      `Failed to load tool fixtures from ${filePath}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    );
+  }
+}
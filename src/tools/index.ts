@@ -0,0 +1,8 @@
+/**
+ * Tool definitions and mocked tool execution for Hebo Eval
+ * @module tools
+ */
+
+export * from './types/tool.types';
+export * from './mock-tools';
+export * from './fixtures';
@@ -0,0 +1,52 @@
+import { jsonSchema, tool, ToolSet } from 'ai';
+import { Logger } from '../utils/logger.js';
+import { matchesArgs } from '../scoring/tool-calls.js';
+import { ToolDefinition, ToolDefinitions } from './types/tool.types.js';
+
+/**
+ * Finds the canned response for a tool call
+ *
+ * Responses are checked in order and the first one whose argument pattern
+ * matches the call is used. Responses without a pattern match every call.
+ *
+ * @param toolName The name of the called tool
+ * @param definition The tool definition with the canned responses
+ * @param args The arguments of the call
+ * @returns The canned response, or an error object if no response matches
+ */
+export function resolveMockResponse(
+  toolName: string,
+  definition: ToolDefinition,
+  args: unknown,
+): unknown {
+  const match = definition.responses.find(
+    (response) =>
+      response.args === undefined || matchesArgs(response.args, args),
+  );
+  if (match) {
+    return match.response;
+  }
+
+  const message = `No mock response for tool ${toolName} with args ${JSON.stringify(args)}`;
+  Logger.warn(message);
+  return { error: message };
+}
+
+/**
+ * Creates AI SDK tools that answer calls with the canned responses of their definitions
+ * @param definitions The tool definitions keyed by tool name
+ * @returns The tool set to pass to the model
+ */
+export function createMockTools(definitions: ToolDefinitions): ToolSet {
+  return Object.fromEntries(
+    Object.entries(definitions).map(([toolName, definition]) => [
+      toolName,
+      tool({
+        description: definition.description,
+        parameters: jsonSchema(definition.parameters),
+        execute: (args: unknown) =>
+          Promise.resolve(resolveMockResponse(toolName, definition, args)),
+      }),
+    ]),
+  );
+}
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+/**
+ * Canned response returned by a mocked tool
+ */
+export const ToolMockResponseSchema = z.object({
+  /**
+   * Argument pattern the call must match. Matches every call when omitted
+   */
+  args: z.record(z.unknown()).optional(),
+
+  /**
+   * Value returned to the model when the pattern matches
+   */
+  response: z.unknown(),
+});
+
+/**
+ * Definition of a tool the agent can call, with canned responses
+ */
+export const ToolDefinitionSchema = z.object({
+  /**
+   * Description of the tool shown to the model
+   */
+  description: z.string().optional(),
+
+  /**
+   * JSON Schema of the tool arguments
+   */
+  parameters: z.record(z.unknown()).default({ type: 'object', properties: {} }),
+
+  /**
+   * Canned responses, checked in order
+   */
+  responses: z.array(ToolMockResponseSchema).default([]),
+});
+
+/**
+ * Tool definitions keyed by tool name
+ */
+export const ToolDefinitionsSchema = z.record(ToolDefinitionSchema);
+
+/**
+ * Shape of a shared tool fixtures file
+ */
+export const ToolFixturesSchema = z.object({
+  tools: ToolDefinitionsSchema,
+});
+
+export type ToolMockResponse = z.infer<typeof ToolMockResponseSchema>;
+export type ToolDefinition = z.infer<typeof ToolDefinitionSchema>;
+export type ToolDefinitions = z.infer<typeof ToolDefinitionsSchema>;
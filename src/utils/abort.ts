@@ -0,0 +1,80 @@
+/**
+ * Creates a signal that aborts after a timeout or when a parent signal aborts
+ * @param timeout Optional time in milliseconds after which the signal aborts
+ * @param reason Function that creates the abort reason when the timeout expires
+ * @param parent Optional signal whose abort is passed on
+ * @param deferred Whether the timer only starts when `start` is called, instead of right away
+ * @returns The signal, a function that starts the timer and a function that stops the timer and stops listening to the parent
+ */
+export function createTimeoutSignal(
+  timeout: number | undefined,
+  reason: () => Error,
+  parent?: AbortSignal,
+  deferred: boolean = false,
+): { signal: AbortSignal; start: () => void; dispose: () => void } {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const start = () => {
+    if (timeout !== undefined && timer === undefined) {
+      timer = setTimeout(() => controller.abort(reason()), timeout);
+    }
+  };
+  if (!deferred) {
+    start();
+  }
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    start,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Waits for a promise, rejecting with the abort reason as soon as the signal aborts
+ *
+ * This bounds the wait even for work that does not observe the signal itself.
+ *
+ * @param promise The promise to wait for
+ * @param signal The signal that ends the wait
+ * @returns Promise that settles like the given promise, unless the signal aborts first
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+): Promise<T> {
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortReason(signal));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+  return Promise.race([promise, aborted]).finally(() => {
+    if (onAbort) {
+      signal.removeEventListener('abort', onAbort);
+    }
+  });
+}
+
+/**
+ * Gets the reason an aborted signal was aborted with, as an error
+ * @param signal The aborted signal
+ * @returns The abort reason if it is an error, or a generic abort error
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error('The operation was aborted');
+}
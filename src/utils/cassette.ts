@@ -0,0 +1,275 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Whether a cassette saves the responses of real requests or serves saved responses
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * The parts of a request that identify it in a cassette
+ *
+ * Headers are left out, so API keys are never saved and do not change the key.
+ */
+interface CassetteRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * A request and its response, as saved in a cassette
+ */
+interface CassetteEntry {
+  request: CassetteRequest;
+  response: {
+    status: number;
+    statusText: string;
+    contentType?: string;
+    body: string;
+  };
+}
+
+/**
+ * The parts of an embedding response that a cassette splits and joins
+ */
+interface EmbeddingResponseBody {
+  data: { index: number; [key: string]: unknown }[];
+  usage?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Records HTTP requests and their responses to a directory, or replays them from it
+ *
+ * Each response is saved in a JSON file named after a hash of the normalized
+ * request: its method, URL and body, with the keys of a JSON body sorted.
+ * Only successful responses are recorded, so errors such as rate limits are
+ * not replayed. Identical requests replay the same response.
+ *
+ * Embedding requests for several texts are saved as one request per text,
+ * so a replay finds the embeddings whichever texts are batched together.
+ */
+export class Cassette {
+  /**
+   * @param directory The directory the responses are saved in
+   * @param mode Whether to record real responses or replay saved ones
+   * @param fetchFn The function that sends requests when recording (defaults to the global fetch)
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly mode: CassetteMode,
+    private readonly fetchFn: typeof fetch = (input, init) =>
+      fetch(input, init),
+  ) {}
+
+  /**
+   * Sends a request like the global fetch, recording or replaying its response
+   * @throws Error when replaying a request that was not recorded
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = await normalizeRequest(
+      input instanceof Request && !init
+        ? input.clone()
+        : new Request(input, init),
+    );
+    const texts = getEmbeddingInputs(request);
+
+    if (this.mode === 'replay') {
+      init?.signal?.throwIfAborted();
+      const entry =
+        (await this.read(request)) ??
+        (texts && (await this.readEmbeddings(request, texts)));
+      if (!entry) {
+        throw new Error(
+          `No recorded response for ${request.method} ${request.url} in ${this.directory} (request ${hashRequest(request)})`,
+        );
+      }
+      return toResponse(entry);
+    }
+
+    const response = await this.fetchFn(input, init);
+    if (!response.ok) {
+      return response;
+    }
+
+    const entry: CassetteEntry = {
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers.get('content-type') ?? undefined,
+        body: await response.text(),
+      },
+    };
+    if (texts) {
+      await this.writeEmbeddings(entry, texts);
+    } else {
+      await this.write(entry);
+    }
+    return toResponse(entry);
+  };
+
+  /**
+   * Reads the recorded entry of a request, or undefined if it was not recorded
+   */
+  private async read(
+    request: CassetteRequest,
+  ): Promise<CassetteEntry | undefined> {
+    try {
+      return JSON.parse(
+        await readFile(this.getFile(request), 'utf-8'),
+      ) as CassetteEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Joins the recorded embeddings of each text into the response of a batch, or undefined if one is missing
+   */
+  private async readEmbeddings(
+    request: CassetteRequest,
+    texts: string[],
+  ): Promise<CassetteEntry | undefined> {
+    const entries = await Promise.all(
+      texts.map((text) => this.read(withInput(request, text))),
+    );
+    if (entries.some((entry) => !entry)) {
+      return undefined;
+    }
+
+    const bodies = entries.map(
+      (entry) => JSON.parse(entry!.response.body) as EmbeddingResponseBody,
+    );
+    const body: EmbeddingResponseBody = {
+      ...bodies[0],
+      data: bodies.map(({ data: [item] }, index) => ({ ...item, index })),
+    };
+    delete body.usage;
+    return {
+      request,
+      response: { ...entries[0]!.response, body: JSON.stringify(body) },
+    };
+  }
+
+  /**
+   * Writes an entry to the directory
+   */
+  private async write(entry: CassetteEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      this.getFile(entry.request),
+      `${JSON.stringify(entry, null, 2)}\n`,
+      'utf-8',
+    );
+  }
+
+  /**
+   * Splits the entry of an embedding batch into an entry for each text and writes them
+   */
+  private async writeEmbeddings(
+    entry: CassetteEntry,
+    texts: string[],
+  ): Promise<void> {
+    const body = JSON.parse(entry.response.body) as EmbeddingResponseBody;
+    for (const item of body.data) {
+      const single: EmbeddingResponseBody = {
+        ...body,
+        data: [{ ...item, index: 0 }],
+      };
+      // The usage is for the whole batch, not for a single text
+      delete single.usage;
+      await this.write({
+        request: withInput(entry.request, texts[item.index]),
+        response: { ...entry.response, body: JSON.stringify(single) },
+      });
+    }
+  }
+
+  /**
+   * Gets the path of the file of a request
+   */
+  private getFile(request: CassetteRequest): string {
+    return join(this.directory, `${hashRequest(request)}.json`);
+  }
+}
+
+/**
+ * Gets the texts of an embedding request for several texts, or undefined for other requests
+ */
+function getEmbeddingInputs(request: CassetteRequest): string[] | undefined {
+  const input = (request.body as { input?: unknown } | undefined)?.input;
+  return request.url.endsWith('/embeddings') &&
+    Array.isArray(input) &&
+    input.every((text) => typeof text === 'string')
+    ? input
+    : undefined;
+}
+
+/**
+ * Copies a request with a single text as its input
+ */
+function withInput(request: CassetteRequest, text: string): CassetteRequest {
+  return {
+    ...request,
+    body: { ...(request.body as Record<string, unknown>), input: text },
+  };
+}
+
+/**
+ * Reduces a request to the parts that identify it, parsing a JSON body
+ */
+async function normalizeRequest(request: Request): Promise<CassetteRequest> {
+  const { method, url } = request;
+  const text = await request.text();
+  if (!text) {
+    return { method, url };
+  }
+
+  try {
+    return { method, url, body: JSON.parse(text) as unknown };
+  } catch {
+    return { method, url, body: text };
+  }
+}
+
+/**
+ * Hashes a normalized request, independently of the order of object keys
+ */
+function hashRequest(request: CassetteRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify(sortKeys(request)))
+    .digest('hex');
+}
+
+/**
+ * Copies a JSON value with the keys of every object sorted
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Creates the response of a cassette entry
+ */
+function toResponse({ response }: CassetteEntry): Response {
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.contentType
+      ? { 'Content-Type': response.contentType }
+      : {},
+  });
+}
@@ -1,5 +1,9 @@
-import { TestCase } from '../core/types/message.types.js';
+import { Assertion, TestCase } from '../core/types/message.types.js';
 import type { CoreMessage } from 'ai';
+import type {
+  EvaluationReport,
+  RunStatistics,
+} from '../evaluation/types/evaluation.types.js';
 
 /**
  * Formats a test case as plain text, showing roles, content, tool usages, and tool responses.
@@ -19,8 +23,12 @@ export const formatTestCasePlain = (testCase: TestCase): string => {
 const formatMessageBlockPlain = (block: CoreMessage): string => {
   const lines: string[] = [];
 
-  // Show the role as it would appear in the test case file
-  const roleDisplay = block.role === 'tool' ? 'tool' : block.role;
+  // Tool results are shown as the tool responses they were written as
+  if (block.role === 'tool') {
+    return block.content
+      .map((part) => `tool response: ${formatJsonPlain(part.result)}`)
+      .join('\n');
+  }
 
   // Extract text content from CoreMessage, handling different content types
   const contentText =
@@ -32,7 +40,96 @@ const formatMessageBlockPlain = (block: CoreMessage): string => {
             .join('')
         : '';
 
-  lines.push(`${roleDisplay}: ${contentText}`.trim());
+  // Show the role as it would appear in the test case file
+  const toolCalls =
+    block.role === 'assistant' && Array.isArray(block.content)
+      ? block.content.filter((part) => part.type === 'tool-call')
+      : [];
+  if (toolCalls.length === 0 || contentText.trim() !== '') {
+    lines.push(`${block.role}: ${contentText}`.trim());
+  }
+
+  toolCalls.forEach((toolCall) => {
+    lines.push(formatToolCallPlain(toolCall));
+  });
 
   return lines.join('\n');
 };
+
+/**
+ * Formats a tool call as plain text, the way it is written in a test case file.
+ * @param toolCall The tool call to format
+ * @returns The tool use marker followed by the args marker
+ */
+export const formatToolCallPlain = (toolCall: {
+  toolName: string;
+  args: unknown;
+}): string => {
+  return `tool use: ${toolCall.toolName}\nargs: ${formatJsonPlain(toolCall.args)}`;
+};
+
+/**
+ * Formats a JSON value on a single line, leaving strings as they are.
+ * @param value The value to format
+ * @returns The formatted value
+ */
+const formatJsonPlain = (value: unknown): string => {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Formats an assertion as plain text, the way it is written in a test case file.
+ * @param assertion The assertion to format
+ * @returns The assertion marker followed by its value
+ */
+export const formatAssertionPlain = (assertion: Assertion): string => {
+  return `expect ${assertion.type.replace('_', ' ')}: ${assertion.value}`.trim();
+};
+
+/**
+ * Formats an alternative answer as plain text, the way it is written in a test case file.
+ * @param alternative The alternative answer to format
+ * @returns The alternative marker followed by the answer
+ */
+export const formatAlternativePlain = (alternative: string): string => {
+  return `assistant (alt): ${alternative}`;
+};
+
+/**
+ * Formats the expected answer that scored best as plain text.
+ * @param index The index of the answer: 0 for the expected answer, 1 and up for the alternatives
+ * @param answer The text of the answer
+ * @returns The answer marker, numbered for alternatives, followed by the answer
+ */
+export const formatMatchedAnswerPlain = (
+  index: number,
+  answer: string,
+): string => {
+  return `${index === 0 ? 'assistant' : `assistant (alt) #${index}`}: ${answer}`;
+};
+
+/**
+ * Formats the expected answer that scored best for a result of an evaluation report as plain text.
+ * @param result The report result
+ * @returns The formatted answer, or undefined if the test case has no alternatives
+ */
+export const formatResultMatchedAnswerPlain = ({
+  matchedAnswer,
+  testCase,
+}: EvaluationReport['results'][number]): string | undefined => {
+  const answer =
+    matchedAnswer === undefined ? undefined : testCase.answers?.[matchedAnswer];
+  return matchedAnswer === undefined || answer === undefined
+    ? undefined
+    : formatMatchedAnswerPlain(matchedAnswer, answer);
+};
+
+/**
+ * Formats the statistics of a test case that ran several times as plain text.
+ * @param runs The run statistics to format
+ * @returns The passed runs, pass policy and score statistics on one line
+ */
+export const formatRunStatisticsPlain = (runs: RunStatistics): string =>
+  `${runs.passed}/${runs.count} runs passed (pass policy: ${runs.passPolicy}), score mean ${runs.mean.toFixed(
+    3,
+  )}, min ${runs.min.toFixed(3)}, max ${runs.max.toFixed(3)}, stddev ${runs.stddev.toFixed(3)}`;
@@ -0,0 +1,85 @@
+import { constants } from 'os';
+import { InterruptedError } from '../evaluation/errors.js';
+import { Logger } from './logger.js';
+
+/**
+ * Turns SIGINT and SIGTERM into signals that interrupt a run gracefully
+ *
+ * The first signal stops starting new test cases and lets the running ones
+ * finish. The second signal aborts the running test cases. After that the
+ * handler is removed, so a third signal ends the process right away.
+ */
+export class InterruptHandler {
+  private readonly stopController = new AbortController();
+  private readonly abortController = new AbortController();
+  private received?: NodeJS.Signals;
+
+  /**
+   * @param signals The process signals that interrupt the run
+   */
+  constructor(
+    private readonly signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'],
+  ) {}
+
+  /**
+   * Signal that aborts on the first interrupt, to stop starting new test cases
+   */
+  get stopSignal(): AbortSignal {
+    return this.stopController.signal;
+  }
+
+  /**
+   * Signal that aborts on the second interrupt, to abort the running test cases
+   */
+  get abortSignal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Exit code for the process signal that interrupted the run, or undefined if it was not interrupted
+   */
+  get exitCode(): number | undefined {
+    return this.received && 128 + constants.signals[this.received];
+  }
+
+  /**
+   * Starts listening to the process signals
+   * @returns The handler, for chaining
+   */
+  install(): this {
+    for (const signal of this.signals) {
+      process.on(signal, this.onSignal);
+    }
+    return this;
+  }
+
+  /**
+   * Stops listening to the process signals
+   */
+  dispose(): void {
+    for (const signal of this.signals) {
+      process.off(signal, this.onSignal);
+    }
+  }
+
+  /**
+   * Stops the run on the first signal and aborts it on the second
+   */
+  private readonly onSignal = (signal: NodeJS.Signals): void => {
+    // Clear the progress bar, so the messages are not drawn over it
+    Logger.stopLoading();
+
+    if (!this.received) {
+      this.received = signal;
+      Logger.warn(
+        'Interrupted: waiting for the running test cases to finish. Press Ctrl-C again to abort them',
+      );
+      this.stopController.abort(new InterruptedError('Run interrupted'));
+      return;
+    }
+
+    Logger.warn('Aborting the running test cases');
+    this.abortController.abort(new InterruptedError('Run aborted'));
+    this.dispose();
+  };
+}
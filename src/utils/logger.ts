@@ -79,6 +79,8 @@ export class Logger {
     passed: boolean;
     error?: string;
     score: number;
+    rationale?: string;
+    matchedAnswer?: string;
     executionTime: number;
     testCase: {
       input: string;
@@ -307,6 +309,8 @@ export class Logger {
    * @param passed Whether the test passed
    * @param error Optional error message
    * @param score Test score
+   * @param rationale Optional explanation of the score
+   * @param matchedAnswer Optional expected answer that scored best, with its label
    * @param executionTime Execution time in milliseconds
    * @param testCase Optional test case information
    * @param response Optional response information
@@ -317,6 +321,8 @@ export class Logger {
     details: {
       error?: string;
       score?: number;
+      rationale?: string;
+      matchedAnswer?: string;
       executionTime?: number;
       testCase?: { input: string; expected: string };
       response?: string;
@@ -332,6 +338,8 @@ export class Logger {
       passed,
       error: details.error,
       score: details.score ?? 0,
+      rationale: details.rationale,
+      matchedAnswer: details.matchedAnswer,
       executionTime: details.executionTime ?? 0,
       testCase: details.testCase ?? { input: '', expected: '' },
       response: details.response ?? '',
@@ -382,8 +390,16 @@ export class Logger {
           console.log(result.testCase.input);
           console.log('\nExpected Output:');
           console.log(result.testCase.expected);
+          if (result.matchedAnswer) {
+            console.log('\nBest Match:');
+            console.log(result.matchedAnswer);
+          }
           console.log('\nActual Response:');
           console.log(result.response);
+          if (result.rationale) {
+            console.log('\nRationale:');
+            console.log(result.rationale);
+          }
           if (result.error) {
             console.log('\nError:');
             console.log(result.error);
@@ -0,0 +1,300 @@
+import { APICallError } from 'ai';
+import { Logger } from './logger.js';
+import { abortReason } from './abort.js';
+import { RateLimits } from '../config/types/config.types.js';
+
+/**
+ * Options for scheduling a single request
+ */
+export interface ScheduleOptions<T> {
+  /**
+   * Estimated number of tokens the request uses, taken before it is sent
+   */
+  tokens?: number;
+
+  /**
+   * Gets the actual number of tokens used from the result, to correct the estimate
+   */
+  usage?: (result: T) => number | undefined;
+
+  /**
+   * Signal that aborts the request and any wait before it
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for creating a request scheduler
+ */
+export interface RequestSchedulerOptions {
+  /**
+   * Delay before the first retry in milliseconds, doubled for each further retry
+   */
+  initialDelay?: number;
+
+  /**
+   * Maximum delay between retries in milliseconds
+   */
+  maxDelay?: number;
+
+  /**
+   * Maximum number of retries for providers that do not configure one
+   */
+  maxRetries?: number;
+}
+
+/**
+ * Error for an HTTP response with an unsuccessful status
+ */
+export class HttpError extends Error {
+  /**
+   * @param message The error message
+   * @param status The HTTP status code
+   * @param retryAfter The value of the Retry-After header, if any
+   */
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfter?: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Bucket of tokens that refills continuously up to its capacity over a minute
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  /**
+   * @param capacity Number of tokens per minute, also the maximum number of tokens in the bucket
+   */
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Takes tokens from the bucket, waiting until enough tokens are available
+   *
+   * Requests for more tokens than the capacity wait for a full bucket.
+   *
+   * @param amount Number of tokens to take
+   * @param signal Optional signal that aborts the wait
+   * @returns Promise that resolves when the tokens are taken
+   * @throws The abort reason if the signal aborts
+   */
+  async take(amount: number, signal?: AbortSignal): Promise<void> {
+    const needed = Math.min(amount, this.capacity);
+    for (;;) {
+      this.refill();
+      if (this.tokens >= needed) {
+        this.tokens -= amount;
+        return;
+      }
+      await sleep(((needed - this.tokens) / this.capacity) * 60_000, signal);
+    }
+  }
+
+  /**
+   * Adds tokens to the bucket, or removes them if the amount is negative
+   * @param amount Number of tokens to add
+   */
+  adjust(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + amount);
+  }
+
+  /**
+   * Adds the tokens that refilled since the last update
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 60_000) * this.capacity,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Rate limiters of a single provider
+ */
+interface ProviderLimiters {
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+  maxRetries?: number;
+}
+
+/**
+ * Schedules requests to providers within their rate limits
+ *
+ * Each provider has token buckets for its requests and tokens per minute.
+ * Requests that are rate limited (HTTP 429) or fail with a server error
+ * (HTTP 5xx) are retried with exponential backoff and jitter, waiting at
+ * least as long as the Retry-After header asks for.
+ */
+export class RequestScheduler {
+  private static instance: RequestScheduler | undefined;
+  private readonly limiters = new Map<string, ProviderLimiters>();
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly maxRetries: number;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.initialDelay = options.initialDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 60_000;
+    this.maxRetries = options.maxRetries ?? 5;
+  }
+
+  /**
+   * Gets the scheduler shared by all agents and embedding providers
+   */
+  public static getInstance(): RequestScheduler {
+    if (!this.instance) {
+      this.instance = new RequestScheduler();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Sets the rate limits of a provider, replacing any earlier limits
+   * @param key The provider key
+   * @param limits The rate limits
+   */
+  configure(key: string, limits: RateLimits = {}): void {
+    this.limiters.set(key, {
+      requests: limits.requestsPerMinute
+        ? new TokenBucket(limits.requestsPerMinute)
+        : undefined,
+      tokens: limits.tokensPerMinute
+        ? new TokenBucket(limits.tokensPerMinute)
+        : undefined,
+      maxRetries: limits.maxRetries,
+    });
+  }
+
+  /**
+   * Sends a request within the rate limits of its provider, retrying it if it is rate limited or fails with a server error
+   * @param key The provider key
+   * @param request The function that sends the request
+   * @param options The estimated and actual token usage of the request, and the signal that aborts it
+   * @returns Promise that resolves with the result of the request
+   * @throws The error of the last attempt if the request does not succeed, or the abort reason if it is aborted
+   */
+  async schedule<T>(
+    key: string,
+    request: () => Promise<T>,
+    options: ScheduleOptions<T> = {},
+  ): Promise<T> {
+    const limiters = this.limiters.get(key) ?? {};
+    const maxRetries = limiters.maxRetries ?? this.maxRetries;
+    const estimate = options.tokens ?? 0;
+
+    for (let attempt = 0; ; attempt++) {
+      options.signal?.throwIfAborted();
+      await limiters.requests?.take(1, options.signal);
+      await limiters.tokens?.take(estimate, options.signal);
+
+      try {
+        const result = await request();
+        const used = options.usage?.(result);
+        if (used !== undefined) {
+          limiters.tokens?.adjust(estimate - used);
+        }
+        return result;
+      } catch (error) {
+        const retry = getRetryInfo(error);
+        if (!retry || attempt >= maxRetries || options.signal?.aborted) {
+          throw error;
+        }
+
+        const backoff = Math.min(
+          this.maxDelay,
+          this.initialDelay * 2 ** attempt,
+        );
+        const delay = Math.max(
+          retry.retryAfter ?? 0,
+          backoff / 2 + Math.random() * (backoff / 2),
+        );
+        Logger.debug(
+          `Request to ${key} failed with status ${retry.status}. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxRetries})...`,
+        );
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+}
+
+/**
+ * Gets the status and requested retry delay of an error that should be retried
+ * @param error The error of a request
+ * @returns The status and the Retry-After delay in milliseconds, or undefined if the error should not be retried
+ */
+function getRetryInfo(
+  error: unknown,
+): { status: number; retryAfter?: number } | undefined {
+  let status: number | undefined;
+  let retryAfter: string | undefined;
+  if (error instanceof HttpError) {
+    status = error.status;
+    retryAfter = error.retryAfter;
+  } else if (APICallError.isInstance(error)) {
+    status = error.statusCode;
+    retryAfter = error.responseHeaders?.['retry-after'];
+  }
+
+  if (status === undefined || (status !== 429 && status < 500)) {
+    return undefined;
+  }
+  return { status, retryAfter: parseRetryAfter(retryAfter) };
+}
+
+/**
+ * Parses a Retry-After header, given in seconds or as an HTTP date
+ * @param value The header value
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Estimates the number of tokens of a text, at about four characters per token
+ * @param text The text
+ * @returns The estimated number of tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Waits for a number of milliseconds, rejecting with the abort reason if the signal aborts first
+ */
+function sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      if (signal) {
+        reject(abortReason(signal));
+      }
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,149 @@
+import { abortReason } from './abort.js';
+
+/**
+ * Limits the number of tasks that run at the same time
+ *
+ * Tasks that cannot start yet wait in a queue and start in the order they
+ * were submitted, as soon as a running task finishes.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  /**
+   * @param limit Maximum number of tasks that run at the same time
+   * @throws Error if the limit is less than 1
+   */
+  constructor(readonly limit: number) {
+    if (!(limit >= 1)) {
+      throw new Error(`Concurrency limit must be at least 1, got ${limit}`);
+    }
+  }
+
+  /**
+   * Runs a task as soon as a slot is free
+   * @param task The task to run
+   * @param signal Optional signal that drops the task from the queue if it aborts before the task starts
+   * @returns Promise that resolves or rejects with the result of the task
+   * @throws The abort reason if the signal aborts before the task starts
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Takes a slot, waiting for one to be released if none is free
+   */
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting.splice(this.waiting.indexOf(next), 1);
+        reject(abortReason(signal!));
+      };
+      const next = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(next);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hands the slot over to the next waiting task, or frees it
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Concurrency limits that apply separately to each key, such as a provider name
+ */
+export class ConcurrencyLimits {
+  private readonly limiters = new Map<string, ConcurrencyLimiter>();
+
+  /**
+   * @param limits Maximum number of tasks that run at the same time, by key. Keys without a limit are not limited
+   */
+  constructor(private readonly limits: Record<string, number> = {}) {}
+
+  /**
+   * Runs a task as soon as a slot for its key is free
+   * @param key The key whose limit applies
+   * @param task The task to run
+   * @param signal Optional signal that drops the task from the queue if it aborts before the task starts
+   * @returns Promise that resolves or rejects with the result of the task
+   */
+  run<T>(
+    key: string,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const limit = this.limits[key];
+    if (limit === undefined) {
+      return task();
+    }
+
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(limit);
+      this.limiters.set(key, limiter);
+    }
+    return limiter.run(task, signal);
+  }
+}
+
+/**
+ * Runs a worker on every item with a bounded number of workers at a time
+ *
+ * The next item starts as soon as any running worker finishes, so a slow
+ * item does not hold up the others. Results are in the order of the items,
+ * whatever order the workers finish in.
+ *
+ * @param items The items to process
+ * @param concurrency Maximum number of workers that run at the same time
+ * @param worker The function that processes an item
+ * @returns Promise that resolves with the results in item order
+ * @throws The first error thrown by a worker
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      runWorker,
+    ),
+  );
+  return results;
+}